@@ -1,43 +1,238 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { FileUploader } from './components/FileUploader';
+import { FilterSettingsPanel } from './components/FilterSettingsPanel';
+import { FileTreeSelector } from './components/FileTreeSelector';
+import { TokenBudget } from './components/TokenBudget';
+import { SplitSettingsPanel } from './components/SplitSettingsPanel';
+import { FormatSelector } from './components/FormatSelector';
+import { SecretReviewPanel } from './components/SecretReviewPanel';
+import { CompressionSettingsPanel } from './components/CompressionSettingsPanel';
+import { DependencyPanel } from './components/DependencyPanel';
+import { DiffSettingsPanel } from './components/DiffSettingsPanel';
+import { ArchiveLimitsPanel } from './components/ArchiveLimitsPanel';
+import { FileLimitsPanel } from './components/FileLimitsPanel';
+import { ContentHandlersPanel } from './components/ContentHandlersPanel';
+import { PromptTemplatePanel } from './components/PromptTemplatePanel';
+import { ProfilesPanel } from './components/ProfilesPanel';
+import { PackHistory } from './components/PackHistory';
+import { ResultViewer } from './components/ResultViewer';
+import { ManifestTable } from './components/ManifestTable';
 import { Icon } from './components/Icon';
-import { ProcessingState, ProcessingStatus } from './types';
-import { processZipFile, createMarkdownContent } from './utils/zipProcessor';
+import { useI18n } from './components/I18nProvider';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
+import {
+  ArchiveIssue,
+  ArchiveLimits,
+  ChangeStatus,
+  CompressionSettings,
+  DependencySettings,
+  DiffSettings,
+  ContentHandlerSettings,
+  DedupSettings,
+  FileLimitSettings,
+  FilterSettings,
+  ManifestEntry,
+  OutputFormatId,
+  OutputPart,
+  PackSource,
+  ProfileSettings,
+  PromptTemplate,
+  ProcessedFile,
+  ProcessingState,
+  ProcessingStatus,
+  SecretAction,
+  SecretFinding,
+  SkippedFile,
+  SplitSettings,
+  TokenizerId
+} from './types';
+import { computeStats } from './utils/zipProcessor';
+import { createPathFilter, DEFAULT_FILTER_SETTINGS } from './utils/filters';
+import { DEFAULT_MODEL_ID, getModelPreset } from './utils/tokenizer';
+import { DEFAULT_SPLIT_SETTINGS } from './utils/splitter';
+import { getOutputFormat } from './utils/outputFormats';
+import { DEFAULT_COMPRESSION_SETTINGS } from './utils/compression';
+import { collectDependencies, DEFAULT_DEPENDENCY_SETTINGS } from './utils/dependencyGraph';
+import { compareArchives, DEFAULT_DIFF_SETTINGS } from './utils/archiveDiff';
+import { DEFAULT_ARCHIVE_LIMITS } from './utils/archiveSafety';
+import { DEFAULT_FILE_LIMITS } from './utils/fileLimits';
+import { DEFAULT_CONTENT_HANDLERS } from './utils/contentHandlers';
+import { DEFAULT_DEDUP_SETTINGS } from './utils/dedup';
+import { addToHistory } from './utils/packHistory';
+import { countTokensInWorker, generatePackInWorker, processSourceInWorker } from './utils/workerClient';
+import { describeError, LocalizedMessage } from './utils/i18n';
 
-const MAX_FILE_SIZE_BYTES = 100 * 1024 * 1024; // 100MB
+// Archives are processed in a worker, so the cap only guards tab memory
+const DEFAULT_MAX_FILE_SIZE_MB = 500;
+
+// File System Access API (Chromium); not part of the DOM typings yet
+type SaveFilePicker = (options: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+const showSaveFilePicker = (window as unknown as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+
+const sourceLabel = (source: PackSource): string => {
+  switch (source.kind) {
+    case 'zip':
+    case 'tar':
+      return source.file.name;
+    case 'files':
+      return source.name;
+    case 'directory':
+      return source.handle.name;
+  }
+};
+
+// Files extracted from the source, awaiting user selection
+interface ExtractedArchive {
+  repoName: string;
+  files: ProcessedFile[];
+  skippedBinaries: SkippedFile[];
+  secretFindings: SecretFinding[];
+  archiveIssues: ArchiveIssue[];
+  manifest?: ManifestEntry[]; // not recorded for comparisons
+  rootFolder?: string;
+  tokenizer: TokenizerId; // tokenizer used for files[].tokens
+  // Set when two sources were compared; files then holds only the changed paths
+  comparison?: {
+    base: ProcessedFile[];
+    statuses: Record<string, ChangeStatus>;
+  };
+}
+
+const revokeResultUrls = (state: ProcessingState) => {
+  if (state.resultUrl) URL.revokeObjectURL(state.resultUrl);
+  state.parts?.forEach(part => URL.revokeObjectURL(part.url));
+};
 
 const App: React.FC = () => {
+  const { t, tNodes, formatSize } = useI18n();
   const [state, setState] = useState<ProcessingState>({
     status: ProcessingStatus.IDLE,
-    message: '',
+    message: null,
     progress: 0,
   });
+  const [filters, setFilters] = useState<FilterSettings>(DEFAULT_FILTER_SETTINGS);
+  const [modelId, setModelId] = useState(DEFAULT_MODEL_ID);
+  const [split, setSplit] = useState<SplitSettings>(DEFAULT_SPLIT_SETTINGS);
+  const [formatId, setFormatId] = useState<OutputFormatId>('markdown');
+  const [compression, setCompression] = useState<CompressionSettings>(DEFAULT_COMPRESSION_SETTINGS);
+  const [maxFileSizeMb, setMaxFileSizeMb] = useState(DEFAULT_MAX_FILE_SIZE_MB);
+  const [archiveLimits, setArchiveLimits] = useState<ArchiveLimits>(DEFAULT_ARCHIVE_LIMITS);
+  const [fileLimits, setFileLimits] = useState<FileLimitSettings>(DEFAULT_FILE_LIMITS);
+  const [contentHandlers, setContentHandlers] = useState<ContentHandlerSettings>(DEFAULT_CONTENT_HANDLERS);
+  const [saveToDisk, setSaveToDisk] = useState(false);
+  const [appendReport, setAppendReport] = useState(false);
+  const [includeOverview, setIncludeOverview] = useState(true);
+  const [dedup, setDedup] = useState<DedupSettings>(DEFAULT_DEDUP_SETTINGS);
+  const [promptTemplate, setPromptTemplate] = useState<PromptTemplate | null>(null);
+  // Bumped when a profile is applied, to reset panels that keep their own draft text
+  const [settingsVersion, setSettingsVersion] = useState(0);
+  const [extracted, setExtracted] = useState<ExtractedArchive | null>(null);
+  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
+  const [secretActions, setSecretActions] = useState<Record<string, SecretAction>>({});
+  const [dependencies, setDependencies] = useState<DependencySettings>(DEFAULT_DEPENDENCY_SETTINGS);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareSources, setCompareSources] = useState<{ before?: PackSource; after?: PackSource }>({});
+  const [diffSettings, setDiffSettings] = useState<DiffSettings>(DEFAULT_DIFF_SETTINGS);
+
+  const dependencyGraph = useMemo(
+    () => (extracted && dependencies.enabled && dependencies.entries.length > 0
+      ? collectDependencies(extracted.files, dependencies.entries, dependencies.maxDepth)
+      : null),
+    [extracted?.files, dependencies]
+  );
+
+  // In dependency mode the selection follows the reachable files
+  useEffect(() => {
+    if (dependencyGraph) setSelectedPaths(new Set(dependencyGraph.paths));
+  }, [dependencyGraph]);
+
+  // Findings in the files that will actually be packed
+  const pendingFindings = useMemo(
+    () => (extracted ? extracted.secretFindings.filter(f => selectedPaths.has(f.path)) : []),
+    [extracted, selectedPaths]
+  );
+
+  const selectedStats = useMemo(
+    () => computeStats(extracted ? extracted.files.filter(f => selectedPaths.has(f.path)) : []),
+    [extracted, selectedPaths]
+  );
 
   const abortControllerRef = useRef<AbortController | null>(null);
+  const model = getModelPreset(modelId);
+  const format = getOutputFormat(formatId);
+  const formatName: LocalizedMessage = { key: `format.${format.id}` };
+
+  const profileSettings: ProfileSettings = {
+    filters, archiveLimits, fileLimits, contentHandlers, modelId, format: formatId, compression, split, appendReport,
+    overview: includeOverview, dedup, promptTemplate
+  };
+
+  const applyProfile = useCallback((settings: ProfileSettings) => {
+    setFilters(settings.filters);
+    setArchiveLimits(settings.archiveLimits);
+    setFileLimits(settings.fileLimits);
+    setContentHandlers(settings.contentHandlers);
+    setModelId(settings.modelId);
+    setFormatId(settings.format);
+    setCompression(settings.compression);
+    setSplit(settings.split);
+    setAppendReport(settings.appendReport);
+    setIncludeOverview(settings.overview);
+    setDedup(settings.dedup);
+    setPromptTemplate(settings.promptTemplate);
+    setSettingsVersion(version => version + 1);
+  }, []);
 
-  // Cleanup blob URL on unmount or when URL changes
+  // Recount per-file tokens when the model (and thus encoding) changes after extraction
   useEffect(() => {
+    if (!extracted || extracted.tokenizer === model.tokenizer) return;
+
+    const controller = new AbortController();
+    countTokensInWorker(extracted.files, model.tokenizer, controller.signal)
+      .then(files => {
+        setExtracted(prev => prev && ({ ...prev, files, tokenizer: model.tokenizer }));
+      })
+      .catch(error => {
+        if (error.name !== 'AbortError') console.error(error);
+      });
+
     return () => {
-      if (state.resultUrl) {
-        URL.revokeObjectURL(state.resultUrl);
-      }
+      controller.abort();
+    };
+  }, [extracted, model.tokenizer]);
+
+  // Cleanup blob URLs on unmount or when URLs change
+  useEffect(() => {
+    return () => {
+      revokeResultUrls(state);
       // Abort any ongoing process on unmount
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
       }
     };
-  }, [state.resultUrl]);
+  }, [state.resultUrl, state.parts]);
+
+  const skipDirectory = useMemo(() => {
+    const { isExcluded } = createPathFilter(filters);
+    return (path: string) => isExcluded(path, true);
+  }, [filters]);
 
-  const handleProcess = useCallback(async (file: File) => {
-    if (file.size > MAX_FILE_SIZE_BYTES) {
+  // Folders are read file by file, so the cap only applies to archives
+  const checkSourceSize = useCallback((source: PackSource): boolean => {
+    if ((source.kind === 'zip' || source.kind === 'tar') && source.file.size > maxFileSizeMb * 1024 * 1024) {
       setState({
         status: ProcessingStatus.ERROR,
-        message: 'Ошибка валидации',
+        message: { key: 'error.validation' },
         progress: 0,
-        error: `Файл слишком большой. Максимальный размер: ${MAX_FILE_SIZE_BYTES / 1024 / 1024}MB`
+        error: { key: 'error.sourceTooLarge', params: { name: source.file.name, max: maxFileSizeMb * 1024 * 1024 } }
       });
-      return;
+      return false;
     }
+    return true;
+  }, [maxFileSizeMb]);
+
+  const handleProcess = useCallback(async (source: PackSource) => {
+    if (!checkSourceSize(source)) return;
 
     // Create new abort controller
     const controller = new AbortController();
@@ -47,74 +242,263 @@ const App: React.FC = () => {
       // 1. Start Processing
       setState({
         status: ProcessingStatus.READING_ZIP,
-        message: 'Чтение файла...',
+        message: { key: 'progress.readingFile' },
         progress: 5,
-        fileName: file.name
+        fileName: sourceLabel(source)
       });
 
-      // 2. Unzip and extract text
-      const { files, tree, stats } = await processZipFile(
-        file, 
+      // 2. Read the source and extract text
+      const { repoName, files, stats, skippedBinaries, secretFindings, archiveIssues, manifest, rootFolder } = await processSourceInWorker(
+        source,
         (pct, msg) => {
           setState(prev => ({ ...prev, progress: pct, message: msg }));
         },
-        controller.signal
+        controller.signal,
+        { filters, tokenizer: model.tokenizer, limits: archiveLimits, fileLimits, contentHandlers }
       );
 
-      // 3. Generate Markdown
+      // 3. Let the user review the selection before generating
+      setExtracted({ repoName, files, skippedBinaries, secretFindings, archiveIssues, manifest, rootFolder, tokenizer: model.tokenizer });
+      setSelectedPaths(new Set(files.map(f => f.path)));
+      // Redact everything unless the user decides otherwise
+      setSecretActions(Object.fromEntries(secretFindings.map(f => [f.id, 'redact' as SecretAction])));
+      setDependencies(DEFAULT_DEPENDENCY_SETTINGS);
+
       setState(prev => ({
         ...prev,
-        status: ProcessingStatus.GENERATING_MD,
-        message: 'Сборка итогового Markdown...',
-        progress: 95,
+        status: ProcessingStatus.SELECTING_FILES,
+        message: { key: 'progress.selectFiles' },
+        progress: 90,
         stats
       }));
 
-      // Removes .zip safely from the end of string (case insensitive)
-      const repoName = file.name.replace(/\.zip$/i, '');
-      const markdownContent = createMarkdownContent(repoName, tree, files);
+    } catch (error: any) {
+      // Ignore abort errors
+      if (error.name === 'AbortError' || error.message === 'Aborted') {
+        console.log('Processing cancelled');
+        return;
+      }
+      
+      console.error(error);
+      setState({
+        status: ProcessingStatus.ERROR,
+        message: { key: 'error.processing' },
+        progress: 0,
+        error: describeError(error)
+      });
+    } finally {
+      abortControllerRef.current = null;
+    }
+  }, [filters, model.tokenizer, archiveLimits, fileLimits, contentHandlers, checkSourceSize]);
+
+  const handleCompare = useCallback(async (before: PackSource, after: PackSource) => {
+    if (!checkSourceSize(before) || !checkSourceSize(after)) return;
 
-      // 4. Create Blob URL
-      const blob = new Blob([markdownContent], { type: 'text/markdown;charset=utf-8' });
-      const url = URL.createObjectURL(blob);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
+    try {
       setState({
-        status: ProcessingStatus.COMPLETED,
-        message: 'Готово!',
-        progress: 100,
-        resultUrl: url,
-        fileName: `${repoName}_packed.md`,
-        stats
+        status: ProcessingStatus.READING_ZIP,
+        message: { key: 'progress.readingBefore' },
+        progress: 5,
+        fileName: `${sourceLabel(before)} → ${sourceLabel(after)}`
       });
 
+      // Both sides run through the same extraction; progress is split in half
+      const options = { filters, tokenizer: model.tokenizer, limits: archiveLimits, fileLimits, contentHandlers };
+      const oldResult = await processSourceInWorker(
+        before,
+        (pct, msg) => setState(prev => ({ ...prev, progress: pct / 2, message: { key: 'progress.before', params: { message: msg } } })),
+        controller.signal,
+        options
+      );
+      const newResult = await processSourceInWorker(
+        after,
+        (pct, msg) => setState(prev => ({ ...prev, progress: 45 + pct / 2, message: { key: 'progress.after', params: { message: msg } } })),
+        controller.signal,
+        options
+      );
+
+      const comparison = compareArchives(oldResult, newResult);
+
+      setExtracted({
+        repoName: newResult.repoName,
+        files: comparison.files,
+        skippedBinaries: newResult.skippedBinaries,
+        secretFindings: comparison.secretFindings,
+        archiveIssues: [...oldResult.archiveIssues, ...newResult.archiveIssues],
+        tokenizer: model.tokenizer,
+        comparison: { base: comparison.base, statuses: comparison.statuses }
+      });
+      setSelectedPaths(new Set(comparison.files.map(f => f.path)));
+      setSecretActions(Object.fromEntries(comparison.secretFindings.map(f => [f.id, 'redact' as SecretAction])));
+      setDependencies(DEFAULT_DEPENDENCY_SETTINGS);
+
+      setState(prev => ({
+        ...prev,
+        status: ProcessingStatus.SELECTING_FILES,
+        message: { key: 'progress.selectFiles' },
+        progress: 90,
+        stats: computeStats(comparison.files)
+      }));
+
     } catch (error: any) {
-      // Ignore abort errors
       if (error.name === 'AbortError' || error.message === 'Aborted') {
         console.log('Processing cancelled');
         return;
       }
-      
+
       console.error(error);
       setState({
         status: ProcessingStatus.ERROR,
-        message: 'Произошла ошибка при обработке.',
+        message: { key: 'error.comparing' },
         progress: 0,
-        error: error.message || 'Unknown error'
+        error: describeError(error)
       });
     } finally {
       abortControllerRef.current = null;
     }
-  }, []);
+  }, [filters, model.tokenizer, archiveLimits, fileLimits, contentHandlers, checkSourceSize]);
+
+  const handleGenerate = useCallback(async () => {
+    if (!extracted) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      // Must be requested first, while the click still counts as a user gesture
+      const fileHandle = saveToDisk && !split.enabled && showSaveFilePicker
+        ? await showSaveFilePicker({ suggestedName: `${extracted.repoName}_${extracted.comparison ? 'diff' : 'packed'}.${format.extension}` })
+        : undefined;
+
+      setState(prev => ({
+        ...prev,
+        status: ProcessingStatus.GENERATING_MD,
+        message: { key: 'progress.buildingPack', params: { format: formatName } },
+        progress: 90
+      }));
+
+      const pack = await generatePackInWorker(
+        {
+          repoName: extracted.repoName,
+          files: extracted.files.filter(f => selectedPaths.has(f.path)),
+          secretFindings: pendingFindings,
+          secretActions,
+          format: format.id,
+          compression,
+          split,
+          dependencies: dependencyGraph?.edges,
+          diff: extracted.comparison && {
+            base: extracted.comparison.base.filter(f => selectedPaths.has(f.path)),
+            statuses: extracted.comparison.statuses,
+            settings: diffSettings
+          },
+          manifest: extracted.manifest,
+          appendReport,
+          overview: includeOverview,
+          dedup,
+          rootFolder: extracted.rootFolder,
+          prompt: promptTemplate ? { preamble: promptTemplate.preamble, postamble: promptTemplate.postamble } : undefined,
+          tokenizer: extracted.tokenizer
+        },
+        (pct, msg) => {
+          setState(prev => ({ ...prev, progress: pct, message: msg }));
+        },
+        controller.signal,
+        fileHandle
+      );
+
+      const completed: ProcessingState = {
+        status: ProcessingStatus.COMPLETED,
+        message: { key: 'progress.done' },
+        progress: 100,
+        stats: pack.stats,
+        skippedBinaries: extracted.skippedBinaries,
+        packedFiles: pack.files,
+        manifest: pack.manifest
+      };
+
+      // Packs written to disk are not kept in memory, so there is nothing to remember
+      if (!fileHandle) {
+        const content = pack.isSplit ? pack.bundle! : pack.parts[0].blob!;
+        addToHistory({
+          repoName: extracted.repoName,
+          fileName: pack.isSplit ? `${extracted.repoName}_parts.zip` : pack.parts[0].fileName,
+          format: format.id,
+          stats: pack.stats,
+          partCount: pack.parts.length,
+          size: content.size,
+          content
+        }).catch(error => console.warn('Could not add the pack to the history', error));
+      }
+
+      if (fileHandle) {
+        setState({ ...completed, fileName: fileHandle.name, savedToDisk: fileHandle.name });
+      } else if (pack.isSplit) {
+        const parts: OutputPart[] = pack.parts.map(part => ({
+          fileName: part.fileName,
+          url: URL.createObjectURL(part.blob!),
+          size: part.size,
+          tokenCount: part.tokenCount
+        }));
+        setState({
+          ...completed,
+          resultUrl: URL.createObjectURL(pack.bundle!),
+          fileName: `${extracted.repoName}_parts.zip`,
+          parts
+        });
+      } else {
+        // Create Blob URL
+        setState({
+          ...completed,
+          resultUrl: URL.createObjectURL(pack.parts[0].blob!),
+          fileName: pack.parts[0].fileName
+        });
+      }
+    } catch (error: any) {
+      // Ignore abort errors (including a dismissed save dialog)
+      if (error.name === 'AbortError' || error.message === 'Aborted') {
+        console.log('Generation cancelled');
+        setState(prev => prev.status === ProcessingStatus.IDLE ? prev : { ...prev, status: ProcessingStatus.SELECTING_FILES, message: { key: 'progress.selectFiles' } });
+        return;
+      }
+
+      console.error(error);
+      setState({
+        status: ProcessingStatus.ERROR,
+        message: { key: 'error.processing' },
+        progress: 0,
+        error: describeError(error)
+      });
+    } finally {
+      abortControllerRef.current = null;
+    }
+  }, [extracted, selectedPaths, pendingFindings, secretActions, compression, split, dependencyGraph, diffSettings, format, saveToDisk, appendReport, includeOverview, dedup, promptTemplate]);
+
+  // Secrets must be reviewed before anything is generated
+  const handleContinue = useCallback(() => {
+    if (pendingFindings.length > 0 && state.status === ProcessingStatus.SELECTING_FILES) {
+      setState(prev => ({ ...prev, status: ProcessingStatus.REVIEWING_SECRETS, message: { key: 'progress.reviewingSecrets' } }));
+      return;
+    }
+    handleGenerate();
+  }, [pendingFindings, state.status, handleGenerate]);
 
   const reset = useCallback(() => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
     }
+    setExtracted(null);
+    setSelectedPaths(new Set());
+    setSecretActions({});
+    setCompareSources({});
     setState(prev => {
-      if (prev.resultUrl) URL.revokeObjectURL(prev.resultUrl);
+      revokeResultUrls(prev);
       return {
         status: ProcessingStatus.IDLE,
-        message: '',
+        message: null,
         progress: 0
       };
     });
@@ -123,29 +507,270 @@ const App: React.FC = () => {
   return (
     <div className="min-h-screen bg-slate-900 text-slate-100 p-4 md:p-8 flex flex-col items-center">
       
+      <div className="w-full max-w-6xl flex justify-end">
+        <LanguageSwitcher />
+      </div>
+
       <header className="mb-10 text-center max-w-2xl">
         <h1 className="text-4xl md:text-5xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-emerald-400 mb-4">
           RepoPacker
         </h1>
         <p className="text-slate-400 text-lg">
-          Превратите любой GitHub репозиторий (ZIP) в единый контекстный файл для LLM.
+          {t('app.subtitle')}
         </p>
       </header>
 
-      <main className="w-full max-w-xl bg-slate-800/30 backdrop-blur-sm rounded-2xl border border-slate-700/50 p-6 md:p-8 shadow-2xl">
+      <main className={`w-full ${state.status === ProcessingStatus.COMPLETED && state.packedFiles ? 'max-w-6xl' : 'max-w-xl'} bg-slate-800/30 backdrop-blur-sm rounded-2xl border border-slate-700/50 p-6 md:p-8 shadow-2xl`}>
         
         {/* Status: IDLE */}
         {state.status === ProcessingStatus.IDLE && (
           <div className="space-y-6">
-            <FileUploader onFileSelect={handleProcess} />
+            <div className="flex rounded-md border border-slate-700 overflow-hidden text-sm">
+              {[false, true].map(mode => (
+                <button
+                  key={String(mode)}
+                  type="button"
+                  onClick={() => setCompareMode(mode)}
+                  className={`flex-1 px-3 py-1.5 transition-colors ${
+                    compareMode === mode ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-300 hover:bg-slate-700'
+                  }`}
+                >
+                  {mode ? t('app.mode.compare') : t('app.mode.single')}
+                </button>
+              ))}
+            </div>
+
+            {compareMode ? (
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {(['before', 'after'] as const).map(side => {
+                    const selected = compareSources[side];
+                    const title = side === 'before' ? t('app.compare.before') : t('app.compare.after');
+                    return selected ? (
+                      <div key={side} className="flex flex-col items-center justify-center h-40 rounded-lg border border-slate-600 bg-slate-800 px-3 text-center">
+                        <p className="mb-2 text-sm font-semibold text-white">{title}</p>
+                        <p className="text-sm text-slate-300 break-all">{sourceLabel(selected)}</p>
+                        <button
+                          type="button"
+                          onClick={() => setCompareSources(prev => ({ ...prev, [side]: undefined }))}
+                          className="mt-2 text-xs text-slate-500 hover:text-slate-300 underline underline-offset-4"
+                        >
+                          {t('app.compare.change')}
+                        </button>
+                      </div>
+                    ) : (
+                      <FileUploader
+                        key={side}
+                        title={title}
+                        compact
+                        onSourceSelect={source => setCompareSources(prev => ({ ...prev, [side]: source }))}
+                        skipDirectory={skipDirectory}
+                      />
+                    );
+                  })}
+                </div>
+                <button
+                  onClick={() => compareSources.before && compareSources.after && handleCompare(compareSources.before, compareSources.after)}
+                  disabled={!compareSources.before || !compareSources.after}
+                  className="flex items-center justify-center space-x-2 w-full bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-400 text-white font-semibold py-3 rounded-xl transition-all"
+                >
+                  <span>{t('app.compare.run')}</span>
+                </button>
+              </div>
+            ) : (
+              <FileUploader onSourceSelect={handleProcess} skipDirectory={skipDirectory} />
+            )}
             <div className="text-xs text-center text-slate-500">
-              Поддерживает .zip архивы (макс. 100MB). Обработка выполняется локально.
+              {tNodes('app.sourceNote', {
+                limit: (
+                  <input
+                    type="number"
+                    min={1}
+                    value={maxFileSizeMb}
+                    onChange={e => setMaxFileSizeMb(Math.max(1, Number(e.target.value) || 1))}
+                    className="w-16 rounded bg-slate-900 border border-slate-700 px-1 text-center text-slate-300 focus:border-blue-500 focus:outline-none"
+                  />
+                ),
+              })}
+            </div>
+            <TokenBudget modelId={modelId} onModelChange={setModelId} />
+            <ProfilesPanel current={profileSettings} onApply={applyProfile} />
+            <FilterSettingsPanel key={settingsVersion} value={filters} onChange={setFilters} />
+            <ArchiveLimitsPanel value={archiveLimits} onChange={setArchiveLimits} />
+            <FileLimitsPanel value={fileLimits} onChange={setFileLimits} />
+            <ContentHandlersPanel value={contentHandlers} onChange={setContentHandlers} />
+            <PackHistory />
+          </div>
+        )}
+
+        {/* Status: SELECTING_FILES */}
+        {state.status === ProcessingStatus.SELECTING_FILES && extracted && (
+          <div className="space-y-4">
+            <div className="text-center">
+              <h2 className="text-xl font-bold text-white mb-1">{t('app.selectFiles')}</h2>
+              <p className="text-sm text-slate-400">
+                {t('app.selectionSummary', { selected: selectedStats.fileCount, count: extracted.files.length, size: formatSize(selectedStats.totalSize) })}
+              </p>
+            </div>
+
+            <TokenBudget modelId={modelId} onModelChange={setModelId} tokenCount={selectedStats.tokenCount} />
+
+            <FormatSelector value={formatId} onChange={setFormatId} />
+
+            <PromptTemplatePanel value={promptTemplate} onChange={setPromptTemplate} />
+
+            {extracted.comparison && (
+              <DiffSettingsPanel value={diffSettings} onChange={setDiffSettings} statuses={extracted.comparison.statuses} />
+            )}
+
+            <CompressionSettingsPanel value={compression} onChange={setCompression} />
+
+            <SplitSettingsPanel value={split} onChange={setSplit} />
+
+            {showSaveFilePicker && !split.enabled && (
+              <label className="flex items-center text-xs text-slate-400">
+                <input
+                  type="checkbox"
+                  checked={saveToDisk}
+                  onChange={e => setSaveToDisk(e.target.checked)}
+                  className="mr-2 accent-blue-500"
+                />
+                {t('app.saveToDisk')}
+              </label>
+            )}
+
+            {/* The import graph needs the whole project, not just the changed files */}
+            {!extracted.comparison && (
+              <DependencyPanel
+                paths={extracted.files.map(f => f.path)}
+                value={dependencies}
+                onChange={setDependencies}
+                reachableCount={dependencyGraph?.paths.length}
+              />
+            )}
+
+            <FileTreeSelector files={extracted.files} selected={selectedPaths} onChange={setSelectedPaths} />
+
+            <label className="flex items-center text-sm text-slate-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeOverview}
+                onChange={e => setIncludeOverview(e.target.checked)}
+                className="mr-2 accent-blue-500"
+              />
+              {t('app.includeOverview')}
+            </label>
+
+            <label className="flex items-center text-sm text-slate-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={dedup.enabled}
+                onChange={e => setDedup({ ...dedup, enabled: e.target.checked })}
+                className="mr-2 accent-blue-500"
+              />
+              {t('app.dedup')}
+            </label>
+
+            {dedup.enabled && (
+              <label className="flex items-center text-sm text-slate-400 cursor-pointer pl-6">
+                <input
+                  type="checkbox"
+                  checked={dedup.ignoreWhitespace}
+                  onChange={e => setDedup({ ...dedup, ignoreWhitespace: e.target.checked })}
+                  className="mr-2 accent-blue-500"
+                />
+                {t('app.dedupWhitespace')}
+              </label>
+            )}
+
+            {extracted.manifest && (
+              <label className="flex items-center text-sm text-slate-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={appendReport}
+                  onChange={e => setAppendReport(e.target.checked)}
+                  className="mr-2 accent-blue-500"
+                />
+                {t('app.appendReport')}
+              </label>
+            )}
+
+            {extracted.archiveIssues.length > 0 && (
+              <details className="text-left text-sm bg-amber-500/5 border border-amber-500/30 rounded-lg px-4 py-3">
+                <summary className="cursor-pointer text-amber-400">
+                  {t('app.archiveIssues', { count: extracted.archiveIssues.length })}
+                </summary>
+                <ul className="mt-2 max-h-48 overflow-y-auto space-y-1 font-mono text-xs text-slate-400">
+                  {extracted.archiveIssues.map((issue, index) => (
+                    <li key={index} className="flex justify-between gap-4">
+                      <span className="truncate">{issue.path}</span>
+                      <span className="whitespace-nowrap text-slate-500">
+                        {t(`archiveIssue.${issue.kind}`)}{issue.detail ? ` (${issue.detail})` : ''}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+
+            {pendingFindings.length > 0 && (
+              <p className="flex items-center gap-2 text-sm text-amber-400">
+                <Icon name="alert" className="w-5 h-5" />
+                {t('app.secretsFound', { count: pendingFindings.length })}
+              </p>
+            )}
+
+            <button
+              onClick={handleContinue}
+              disabled={selectedStats.fileCount === 0}
+              className="flex items-center justify-center space-x-2 w-full bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-400 text-white font-semibold py-3 rounded-xl transition-all"
+            >
+              <Icon name="file" />
+              <span>{pendingFindings.length > 0 ? t('app.reviewSecrets') : t('app.build', { format: formatName })}</span>
+            </button>
+
+            <div className="text-center">
+              <button
+                onClick={reset}
+                className="text-slate-500 hover:text-slate-300 text-sm underline decoration-slate-600 hover:decoration-slate-400 underline-offset-4"
+              >
+                {t('common.cancel')}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Status: REVIEWING_SECRETS */}
+        {state.status === ProcessingStatus.REVIEWING_SECRETS && (
+          <div className="space-y-4">
+            <div className="text-center">
+              <h2 className="text-xl font-bold text-white mb-1">{t('app.secretsTitle')}</h2>
+              <p className="text-sm text-slate-400">{t('app.secretsDescription')}</p>
+            </div>
+
+            <SecretReviewPanel findings={pendingFindings} actions={secretActions} onChange={setSecretActions} />
+
+            <button
+              onClick={handleGenerate}
+              className="flex items-center justify-center space-x-2 w-full bg-blue-600 hover:bg-blue-500 text-white font-semibold py-3 rounded-xl transition-all"
+            >
+              <Icon name="file" />
+              <span>{t('app.build', { format: formatName })}</span>
+            </button>
+
+            <div className="text-center">
+              <button
+                onClick={() => setState(prev => ({ ...prev, status: ProcessingStatus.SELECTING_FILES, message: { key: 'progress.selectFiles' } }))}
+                className="text-slate-500 hover:text-slate-300 text-sm underline decoration-slate-600 hover:decoration-slate-400 underline-offset-4"
+              >
+                {t('app.backToSelection')}
+              </button>
             </div>
           </div>
         )}
 
         {/* Status: PROCESSING */}
-        {(state.status !== ProcessingStatus.IDLE && state.status !== ProcessingStatus.COMPLETED && state.status !== ProcessingStatus.ERROR) && (
+        {(state.status === ProcessingStatus.READING_ZIP || state.status === ProcessingStatus.GENERATING_MD) && (
           <div className="py-10 flex flex-col items-center">
             <div className="w-full bg-slate-700 rounded-full h-2.5 mb-6 overflow-hidden">
               <div 
@@ -160,10 +785,10 @@ const App: React.FC = () => {
                <div className="w-2 h-2 bg-blue-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
             </div>
             
-            <p className="mt-4 text-lg font-medium text-slate-200">{state.message}</p>
+            <p className="mt-4 text-lg font-medium text-slate-200">{state.message && t(state.message)}</p>
             {state.stats && (
               <p className="mt-2 text-sm text-slate-500">
-                Найдено {state.stats.fileCount} файлов ({(state.stats.totalSize / 1024).toFixed(0)} KB)
+                {t('app.foundFiles', { count: state.stats.fileCount, size: formatSize(state.stats.totalSize) })}
               </p>
             )}
 
@@ -171,7 +796,7 @@ const App: React.FC = () => {
               onClick={reset}
               className="mt-6 px-4 py-2 text-sm text-red-400 hover:text-red-300 hover:bg-red-400/10 rounded-lg transition-colors border border-red-400/20"
             >
-              Отменить
+              {t('common.cancel')}
             </button>
           </div>
         )}
@@ -181,52 +806,125 @@ const App: React.FC = () => {
           <div className="text-center py-6">
             <div className="bg-red-500/10 text-red-400 p-4 rounded-lg mb-6 flex items-center justify-center flex-col">
               <Icon name="alert" className="w-10 h-10 mb-2" />
-              <p>{state.error}</p>
+              <p>{state.error && t(state.error)}</p>
             </div>
             <button 
               onClick={reset}
               className="px-6 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-white font-medium"
             >
-              Попробовать снова
+              {t('app.tryAgain')}
             </button>
           </div>
         )}
 
         {/* Status: COMPLETED */}
         {state.status === ProcessingStatus.COMPLETED && (
-          <div className="text-center space-y-6 animate-fade-in">
-            <div className="flex justify-center">
-              <div className="w-16 h-16 bg-emerald-500/20 rounded-full flex items-center justify-center text-emerald-400">
-                <Icon name="check" className="w-8 h-8" />
+          <div className="space-y-6 animate-fade-in">
+            <div className="max-w-xl mx-auto text-center space-y-6">
+              <div className="flex justify-center">
+                <div className="w-16 h-16 bg-emerald-500/20 rounded-full flex items-center justify-center text-emerald-400">
+                  <Icon name="check" className="w-8 h-8" />
+                </div>
               </div>
-            </div>
-            
-            <div>
-              <h2 className="text-2xl font-bold text-white mb-2">Архив обработан!</h2>
-              <p className="text-slate-400 mb-1">
-                Файл <strong>{state.fileName}</strong> готов.
-              </p>
-              <div className="flex justify-center gap-4 text-sm text-slate-500 mt-2">
-                <span>📄 {state.stats?.fileCount} файлов</span>
-                <span>📦 {(state.stats!.totalSize / 1024).toFixed(1)} KB текста</span>
+              
+              <div>
+                <h2 className="text-2xl font-bold text-white mb-2">{t('app.completed')}</h2>
+                <p className="text-slate-400 mb-1">
+                  {state.savedToDisk
+                    ? tNodes('app.savedTo', { name: <strong>{state.savedToDisk}</strong> })
+                    : tNodes('app.fileReady', { name: <strong>{state.fileName}</strong> })}
+                </p>
+                <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 text-sm text-slate-500 mt-2">
+                  <span>📄 {t('common.files', { count: state.stats!.fileCount })}</span>
+                  <span>📦 {t('app.textSize', { size: formatSize(state.stats!.totalSize) })}</span>
+                  {!!state.stats?.tokensSaved && (
+                    <span>🗜 {t('app.tokensSaved', { count: state.stats.tokensSaved })}</span>
+                  )}
+                  {!!state.stats?.truncatedFiles && (
+                    <span>✂️ {t('app.truncatedFiles', { count: state.stats.truncatedFiles })}</span>
+                  )}
+                  {!!state.stats?.generatedFiles && (
+                    <span>⚙️ {t('app.generatedFiles', { count: state.stats.generatedFiles })}</span>
+                  )}
+                  {state.stats?.dedup && (
+                    <span>♻️ {t('app.duplicates', {
+                      count: state.stats.dedup.files,
+                      size: formatSize(state.stats.dedup.bytesSaved),
+                      tokens: state.stats.dedup.tokensSaved,
+                    })}</span>
+                  )}
+                </div>
               </div>
+
+              <TokenBudget
+                modelId={modelId}
+                tokenCount={state.parts ? Math.max(...state.parts.map(p => p.tokenCount)) : state.stats?.tokenCount}
+              />
+
+              {state.parts && (
+                <ul className="text-left text-sm bg-slate-900/50 border border-slate-700/50 rounded-lg divide-y divide-slate-700/50">
+                  {state.parts.map(part => (
+                    <li key={part.fileName} className="flex items-center justify-between gap-4 px-4 py-2">
+                      <span className="truncate text-slate-300">{part.fileName}</span>
+                      <span className="ml-auto whitespace-nowrap text-xs text-slate-500">
+                        {formatSize(part.size)} · {t('common.tokens', { count: part.tokenCount })}
+                      </span>
+                      <a href={part.url} download={part.fileName} className="text-blue-400 hover:text-blue-300">
+                        <Icon name="download" className="w-5 h-5" />
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {state.skippedBinaries && state.skippedBinaries.length > 0 && (
+                <details className="text-left text-sm bg-slate-900/50 border border-slate-700/50 rounded-lg px-4 py-3">
+                  <summary className="cursor-pointer text-slate-400">
+                    {t('app.skippedBinaries', { count: state.skippedBinaries.length })}
+                  </summary>
+                  <ul className="mt-2 max-h-48 overflow-y-auto space-y-1 font-mono text-xs text-slate-500">
+                    {state.skippedBinaries.map(f => (
+                      <li key={f.path} className="flex justify-between gap-4">
+                        <span className="truncate">{f.path}</span>
+                        <span className="whitespace-nowrap">{formatSize(f.size)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+
+              {state.manifest && extracted && (
+                <ManifestTable manifest={state.manifest} repoName={extracted.repoName} />
+              )}
+
+              {state.resultUrl && (
+                <a 
+                  href={state.resultUrl} 
+                  download={state.fileName}
+                  className="flex items-center justify-center space-x-2 w-full bg-blue-600 hover:bg-blue-500 text-white font-semibold py-4 rounded-xl transition-all shadow-lg hover:shadow-blue-500/25"
+                >
+                  <Icon name="download" />
+                  <span>{state.parts ? t('app.downloadParts', { count: state.parts.length }) : t('app.download', { format: formatName })}</span>
+                </a>
+              )}
             </div>
 
-            <a 
-              href={state.resultUrl} 
-              download={state.fileName}
-              className="flex items-center justify-center space-x-2 w-full bg-blue-600 hover:bg-blue-500 text-white font-semibold py-4 rounded-xl transition-all shadow-lg hover:shadow-blue-500/25"
-            >
-              <Icon name="download" />
-              <span>Скачать Markdown</span>
-            </a>
+            {state.packedFiles && state.packedFiles.length > 0 && (
+              <ResultViewer
+                files={state.packedFiles}
+                format={format}
+                loadPackText={state.resultUrl && !state.parts ? () => fetch(state.resultUrl!).then(r => r.text()) : undefined}
+              />
+            )}
 
-            <button 
-              onClick={reset}
-              className="text-slate-500 hover:text-slate-300 text-sm underline decoration-slate-600 hover:decoration-slate-400 underline-offset-4"
-            >
-              Обработать другой проект
-            </button>
+            <div className="text-center">
+              <button 
+                onClick={reset}
+                className="text-slate-500 hover:text-slate-300 text-sm underline decoration-slate-600 hover:decoration-slate-400 underline-offset-4"
+              >
+                {t('app.processAnother')}
+              </button>
+            </div>
           </div>
         )}
 
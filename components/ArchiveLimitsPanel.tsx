@@ -0,0 +1,46 @@
+import React from 'react';
+import { ArchiveLimits } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface ArchiveLimitsPanelProps {
+  value: ArchiveLimits;
+  onChange: (value: ArchiveLimits) => void;
+}
+
+const MB = 1024 * 1024;
+
+export const ArchiveLimitsPanel: React.FC<ArchiveLimitsPanelProps> = ({ value, onChange }) => {
+  const { t } = useI18n();
+  const controlClass = 'w-24 rounded-md bg-slate-900 border border-slate-700 px-2 py-1 text-xs text-slate-200 focus:border-blue-500 focus:outline-none';
+
+  const fields: { key: keyof ArchiveLimits, unit: string, scale: number }[] = [
+    { key: 'maxTotalSize', unit: t('unit.mb'), scale: MB },
+    { key: 'maxEntrySize', unit: t('unit.mb'), scale: MB },
+    { key: 'maxCompressionRatio', unit: ': 1', scale: 1 },
+    { key: 'maxEntries', unit: '', scale: 1 },
+  ];
+
+  return (
+    <details className="rounded-lg border border-slate-700/50 bg-slate-800/50 px-4 py-3 text-left">
+      <summary className="cursor-pointer text-sm text-slate-300">{t('archiveLimits.title')}</summary>
+      <p className="mt-2 text-xs text-slate-500">{t('archiveLimits.hint')}</p>
+      <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3 text-xs text-slate-400">
+        {fields.map(field => (
+          <label key={field.key} className="flex items-center justify-between gap-2">
+            <span>{t(`archiveLimits.${field.key}`)}</span>
+            <span className="flex items-center gap-1">
+              <input
+                type="number"
+                min={1}
+                value={Math.round(value[field.key] / field.scale)}
+                onChange={e => onChange({ ...value, [field.key]: Math.max(1, Number(e.target.value) || 1) * field.scale })}
+                className={controlClass}
+              />
+              {field.unit && <span className="w-6">{field.unit}</span>}
+            </span>
+          </label>
+        ))}
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { CompressionSettings } from '../types';
+import { COMPRESSION_LEVELS, formatCompressionRules, parseCompressionRules } from '../utils/compression';
+import { useI18n } from './I18nProvider';
+
+interface CompressionSettingsPanelProps {
+  value: CompressionSettings;
+  onChange: (value: CompressionSettings) => void;
+}
+
+export const CompressionSettingsPanel: React.FC<CompressionSettingsPanelProps> = ({ value, onChange }) => {
+  const { t, tNodes } = useI18n();
+  const [rulesText, setRulesText] = useState(formatCompressionRules(value.rules));
+
+  const handleRulesChange = (text: string) => {
+    setRulesText(text);
+    onChange({ ...value, rules: parseCompressionRules(text) });
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-700/50 bg-slate-800/50 px-4 py-3 space-y-3 text-left">
+      <div className="flex items-center justify-between gap-4 text-xs text-slate-400">
+        <span>{t('compression.title')}</span>
+        <div className="flex rounded-md border border-slate-700 overflow-hidden">
+          {COMPRESSION_LEVELS.map(level => (
+            <button
+              key={level}
+              type="button"
+              onClick={() => onChange({ ...value, level })}
+              className={`px-3 py-1 transition-colors ${
+                value.level === level ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-300 hover:bg-slate-700'
+              }`}
+            >
+              {t(`compression.level.${level}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <details open={value.rules.length > 0}>
+        <summary className="cursor-pointer text-xs text-slate-500">{t('compression.rules')}</summary>
+        <p className="mt-2 text-xs text-slate-500">
+          {tNodes('compression.rulesHint', {
+            full: <code>full</code>,
+            strip: <code>strip</code>,
+            outline: <code>outline</code>,
+            example: <code>tests/ outline</code>,
+          })}
+        </p>
+        <textarea
+          value={rulesText}
+          onChange={e => handleRulesChange(e.target.value)}
+          rows={3}
+          spellCheck={false}
+          className="mt-2 w-full rounded-md bg-slate-900 border border-slate-700 p-2 font-mono text-xs text-slate-200 focus:border-blue-500 focus:outline-none"
+        />
+      </details>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { ContentHandlerSettings, NotebookOutputMode, SvgMode } from '../types';
+import { NOTEBOOK_OUTPUT_MODES, SVG_MODES } from '../utils/contentHandlers';
+import { useI18n } from './I18nProvider';
+
+interface ContentHandlersPanelProps {
+  value: ContentHandlerSettings;
+  onChange: (value: ContentHandlerSettings) => void;
+}
+
+export const ContentHandlersPanel: React.FC<ContentHandlersPanelProps> = ({ value, onChange }) => {
+  const { t } = useI18n();
+  const controlClass = 'w-24 rounded-md bg-slate-900 border border-slate-700 px-2 py-1 text-xs text-slate-200 focus:border-blue-500 focus:outline-none disabled:opacity-50';
+  const selectClass = 'rounded-md bg-slate-900 border border-slate-700 px-2 py-1 text-xs text-slate-200 focus:border-blue-500 focus:outline-none disabled:opacity-50';
+
+  const fields: { key: 'outputLines' | 'tableRows' | 'dataMaxBytes', unit: string, scale: number, min: number }[] = [
+    { key: 'outputLines', unit: '', scale: 1, min: 1 },
+    { key: 'tableRows', unit: '', scale: 1, min: 1 },
+    { key: 'dataMaxBytes', unit: t('unit.kb'), scale: 1024, min: 0 },
+  ];
+
+  return (
+    <details className="rounded-lg border border-slate-700/50 bg-slate-800/50 px-4 py-3 text-left">
+      <summary className="cursor-pointer text-sm text-slate-300">{t('contentHandlers.title')}</summary>
+      <p className="mt-2 text-xs text-slate-500">{t('contentHandlers.hint')}</p>
+      <label className="mt-3 flex items-center text-xs text-slate-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={e => onChange({ ...value, enabled: e.target.checked })}
+          className="mr-2 accent-blue-500"
+        />
+        {t('contentHandlers.enabled')}
+      </label>
+      <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3 text-xs text-slate-400">
+        <label className="flex items-center justify-between gap-2">
+          <span>{t('contentHandlers.notebookOutputs')}</span>
+          <select
+            value={value.notebookOutputs}
+            disabled={!value.enabled}
+            onChange={e => onChange({ ...value, notebookOutputs: e.target.value as NotebookOutputMode })}
+            className={selectClass}
+          >
+            {NOTEBOOK_OUTPUT_MODES.map(mode => (
+              <option key={mode} value={mode}>{t(`contentHandlers.notebookOutputs.${mode}`)}</option>
+            ))}
+          </select>
+        </label>
+        {fields.map(field => (
+          <label key={field.key} className="flex items-center justify-between gap-2">
+            <span>{t(`contentHandlers.${field.key}`)}</span>
+            <span className="flex items-center gap-1">
+              <input
+                type="number"
+                min={field.min}
+                value={Math.round(value[field.key] / field.scale)}
+                disabled={!value.enabled || (field.key === 'outputLines' && value.notebookOutputs === 'strip')}
+                onChange={e => onChange({ ...value, [field.key]: Math.max(field.min, Number(e.target.value) || 0) * field.scale })}
+                className={controlClass}
+              />
+              <span className="w-6">{field.unit}</span>
+            </span>
+          </label>
+        ))}
+        <label className="flex items-center justify-between gap-2">
+          <span>{t('contentHandlers.svg')}</span>
+          <select
+            value={value.svg}
+            disabled={!value.enabled}
+            onChange={e => onChange({ ...value, svg: e.target.value as SvgMode })}
+            className={selectClass}
+          >
+            {SVG_MODES.map(mode => (
+              <option key={mode} value={mode}>{t(`contentHandlers.svg.${mode}`)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { DependencySettings } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface DependencyPanelProps {
+  paths: string[]; // candidates for entry points
+  value: DependencySettings;
+  onChange: (value: DependencySettings) => void;
+  reachableCount?: number;
+}
+
+export const DependencyPanel: React.FC<DependencyPanelProps> = ({ paths, value, onChange, reachableCount }) => {
+  const { t } = useI18n();
+  const [entryInput, setEntryInput] = useState('');
+  const controlClass = 'rounded-md bg-slate-900 border border-slate-700 px-2 py-1 text-xs text-slate-200 focus:border-blue-500 focus:outline-none';
+
+  const addEntry = () => {
+    const path = entryInput.trim();
+    if (!paths.includes(path) || value.entries.includes(path)) return;
+    onChange({ ...value, entries: [...value.entries, path] });
+    setEntryInput('');
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-700/50 bg-slate-800/50 px-4 py-3 space-y-3 text-left">
+      <label className="flex items-center text-sm text-slate-300">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={e => onChange({ ...value, enabled: e.target.checked })}
+          className="mr-2 accent-blue-500"
+        />
+        {t('dependencies.enable')}
+      </label>
+
+      {value.enabled && (
+        <div className="space-y-3 text-xs text-slate-400">
+          <p className="text-slate-500">{t('dependencies.hint')}</p>
+
+          <div className="flex gap-2">
+            <input
+              list="dependency-entry-candidates"
+              value={entryInput}
+              onChange={e => setEntryInput(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && addEntry()}
+              placeholder={t('dependencies.entryPlaceholder')}
+              spellCheck={false}
+              className={`${controlClass} flex-1 font-mono`}
+            />
+            <datalist id="dependency-entry-candidates">
+              {paths.map(path => <option key={path} value={path} />)}
+            </datalist>
+            <button
+              type="button"
+              onClick={addEntry}
+              disabled={!paths.includes(entryInput.trim())}
+              className="px-3 py-1 rounded-md bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-400 text-white"
+            >
+              {t('dependencies.add')}
+            </button>
+          </div>
+
+          {value.entries.length > 0 && (
+            <ul className="space-y-1 font-mono">
+              {value.entries.map(entry => (
+                <li key={entry} className="flex items-center justify-between gap-2 text-slate-300">
+                  <span className="truncate">{entry}</span>
+                  <button
+                    type="button"
+                    onClick={() => onChange({ ...value, entries: value.entries.filter(e => e !== entry) })}
+                    className="text-slate-500 hover:text-red-400"
+                    aria-label={t('common.delete')}
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3">
+            <span>{t('dependencies.depth')}</span>
+            <input
+              type="number"
+              min={0}
+              value={value.maxDepth ?? ''}
+              placeholder="∞"
+              onChange={e => onChange({ ...value, maxDepth: e.target.value === '' ? null : Math.max(0, Number(e.target.value) || 0) })}
+              className={`${controlClass} w-20`}
+            />
+            <span>{t('dependencies.depthUnit')}</span>
+            {reachableCount !== undefined && value.entries.length > 0 && (
+              <span className="ml-auto text-slate-500">{t('dependencies.reachable', { count: reachableCount })}</span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { ChangeStatus, DiffSettings } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface DiffSettingsPanelProps {
+  value: DiffSettings;
+  onChange: (value: DiffSettings) => void;
+  statuses: Record<string, ChangeStatus>;
+}
+
+export const DiffSettingsPanel: React.FC<DiffSettingsPanelProps> = ({ value, onChange, statuses }) => {
+  const { t } = useI18n();
+  const controlClass = 'rounded-md bg-slate-900 border border-slate-700 px-2 py-1 text-xs text-slate-200 focus:border-blue-500 focus:outline-none';
+  const counts = { added: 0, modified: 0, removed: 0 };
+  Object.values(statuses).forEach(status => counts[status]++);
+
+  return (
+    <div className="rounded-lg border border-slate-700/50 bg-slate-800/50 px-4 py-3 space-y-3 text-left">
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <span className="text-slate-400">{t('diff.changes')}</span>
+        <span className="text-emerald-400">{t('diff.added', { count: counts.added })}</span>
+        <span className="text-amber-400">{t('diff.modified', { count: counts.modified })}</span>
+        <span className="text-red-400">{t('diff.removed', { count: counts.removed })}</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+        <span>{t('diff.context')}</span>
+        <input
+          type="number"
+          min={0}
+          value={value.context}
+          onChange={e => onChange({ ...value, context: Math.max(0, Number(e.target.value) || 0) })}
+          className={`${controlClass} w-20`}
+        />
+      </div>
+
+      <label className="flex items-center text-sm text-slate-300">
+        <input
+          type="checkbox"
+          checked={value.includeNewVersion}
+          onChange={e => onChange({ ...value, includeNewVersion: e.target.checked })}
+          className="mr-2 accent-blue-500"
+        />
+        {t('diff.includeNewVersion')}
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { FileLimitAction, FileLimitSettings } from '../types';
+import { FILE_LIMIT_ACTIONS } from '../utils/fileLimits';
+import { useI18n } from './I18nProvider';
+
+interface FileLimitsPanelProps {
+  value: FileLimitSettings;
+  onChange: (value: FileLimitSettings) => void;
+}
+
+export const FileLimitsPanel: React.FC<FileLimitsPanelProps> = ({ value, onChange }) => {
+  const { t } = useI18n();
+  const controlClass = 'w-24 rounded-md bg-slate-900 border border-slate-700 px-2 py-1 text-xs text-slate-200 focus:border-blue-500 focus:outline-none';
+
+  const fields: { key: 'maxBytes' | 'maxLines' | 'keepLines', unit: string, scale: number, min: number }[] = [
+    { key: 'maxBytes', unit: t('unit.kb'), scale: 1024, min: 0 },
+    { key: 'maxLines', unit: '', scale: 1, min: 0 },
+    { key: 'keepLines', unit: '', scale: 1, min: 1 },
+  ];
+
+  return (
+    <details className="rounded-lg border border-slate-700/50 bg-slate-800/50 px-4 py-3 text-left">
+      <summary className="cursor-pointer text-sm text-slate-300">{t('fileLimits.title')}</summary>
+      <p className="mt-2 text-xs text-slate-500">{t('fileLimits.hint')}</p>
+      <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3 text-xs text-slate-400">
+        {fields.map(field => (
+          <label key={field.key} className="flex items-center justify-between gap-2">
+            <span>{t(`fileLimits.${field.key}`)}</span>
+            <span className="flex items-center gap-1">
+              <input
+                type="number"
+                min={field.min}
+                value={Math.round(value[field.key] / field.scale)}
+                onChange={e => onChange({ ...value, [field.key]: Math.max(field.min, Number(e.target.value) || 0) * field.scale })}
+                className={controlClass}
+              />
+              <span className="w-6">{field.unit}</span>
+            </span>
+          </label>
+        ))}
+        <label className="flex items-center justify-between gap-2">
+          <span>{t('fileLimits.action')}</span>
+          <select
+            value={value.action}
+            onChange={e => onChange({ ...value, action: e.target.value as FileLimitAction })}
+            className="rounded-md bg-slate-900 border border-slate-700 px-2 py-1 text-xs text-slate-200 focus:border-blue-500 focus:outline-none"
+          >
+            {FILE_LIMIT_ACTIONS.map(action => (
+              <option key={action} value={action}>{t(`fileLimits.action.${action}`)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <label className="mt-3 flex items-center text-xs text-slate-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value.excludeGenerated}
+          onChange={e => onChange({ ...value, excludeGenerated: e.target.checked })}
+          className="mr-2 accent-blue-500"
+        />
+        {t('fileLimits.excludeGenerated')}
+      </label>
+    </details>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FileTreeNode, ProcessedFile } from '../types';
+import { buildFileTree } from '../utils/zipProcessor';
+import { useI18n } from './I18nProvider';
+
+interface FileTreeSelectorProps {
+  files: ProcessedFile[];
+  selected: Set<string>; // entry keys
+  onChange: (selected: Set<string>) => void;
+  // Identifies an entry in `selected`; defaults to the path. Diff packs may hold two entries under one path
+  entryKey?: (file: ProcessedFile, index: number) => string;
+  // When set, file names are clickable (used by the result viewer)
+  onOpen?: (key: string) => void;
+  activeKey?: string;
+}
+
+interface TreeEntry {
+  file: ProcessedFile;
+  key: string;
+}
+
+interface TreeCheckboxProps {
+  checked: boolean;
+  indeterminate: boolean;
+  onChange: () => void;
+}
+
+const TreeCheckbox: React.FC<TreeCheckboxProps> = ({ checked, indeterminate, onChange }) => {
+  const ref = useRef<HTMLInputElement>(null);
+
+  // `indeterminate` is only available as a DOM property
+  useEffect(() => {
+    if (ref.current) ref.current.indeterminate = indeterminate;
+  }, [indeterminate]);
+
+  return (
+    <input
+      ref={ref}
+      type="checkbox"
+      checked={checked}
+      onChange={onChange}
+      className="mr-2 accent-blue-500"
+    />
+  );
+};
+
+const pathKey = (file: ProcessedFile): string => file.path;
+
+export const FileTreeSelector: React.FC<FileTreeSelectorProps> = ({ files, selected, onChange, entryKey = pathKey, onOpen, activeKey }) => {
+  const { t, formatSize } = useI18n();
+  const tree = useMemo(() => buildFileTree(files.map(f => f.path)), [files]);
+  const entries = useMemo(() => {
+    const byPath = new Map<string, TreeEntry[]>();
+    files.forEach((file, index) => byPath.set(file.path, [...(byPath.get(file.path) ?? []), { file, key: entryKey(file, index) }]));
+    return byPath;
+  }, [files, entryKey]);
+  // Entry keys below each directory, gathered once per file list rather than on every render
+  const directoryKeys = useMemo(() => {
+    const byDirectory = new Map<string, string[]>();
+    const collect = (node: FileTreeNode): string[] => {
+      if (node.isFile) return entries.get(node.path)?.map(entry => entry.key) ?? [];
+      const keys = node.children.flatMap(collect);
+      byDirectory.set(node.path, keys);
+      return keys;
+    };
+    collect(tree);
+    return byDirectory;
+  }, [tree, entries]);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const toggleKeys = (keys: string[], select: boolean) => {
+    const next = new Set(selected);
+    keys.forEach(key => (select ? next.add(key) : next.delete(key)));
+    onChange(next);
+  };
+
+  const toggleCollapsed = (path: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  // One row per directory and per entry; entries sharing a path are told apart by a tag
+  const renderRow = (node: FileTreeNode, depth: number, keys: string[], entry?: TreeEntry, tagged = false): React.ReactNode => {
+    const selectedCount = keys.filter(key => selected.has(key)).length;
+    const allSelected = selectedCount === keys.length;
+
+    return (
+      <div
+        key={entry?.key ?? node.path}
+        className="flex items-center py-0.5 text-sm hover:bg-slate-700/40 rounded"
+        style={{ paddingLeft: `${depth * 16}px` }}
+      >
+        {entry ? (
+          <span className="w-4 mr-1" />
+        ) : (
+          <button
+            type="button"
+            onClick={() => toggleCollapsed(node.path)}
+            className="w-4 mr-1 text-xs text-slate-500 hover:text-slate-300"
+          >
+            {collapsed.has(node.path) ? '▸' : '▾'}
+          </button>
+        )}
+        <TreeCheckbox
+          checked={allSelected}
+          indeterminate={selectedCount > 0 && !allSelected}
+          onChange={() => toggleKeys(keys, !allSelected)}
+        />
+        {entry && onOpen ? (
+          <button
+            type="button"
+            onClick={() => onOpen(entry.key)}
+            className={`truncate text-left hover:text-blue-300 ${entry.key === activeKey ? 'text-blue-300 font-medium' : 'text-slate-300'}`}
+          >
+            {node.name}
+          </button>
+        ) : (
+          <span className={`truncate ${entry ? 'text-slate-300' : 'text-slate-200 font-medium'}`}>
+            {node.name}{entry ? '' : '/'}
+          </span>
+        )}
+        {entry && tagged && (
+          <span className="ml-2 text-xs text-slate-500 whitespace-nowrap">
+            {t(entry.file.isDiff ? 'viewer.diffEntry' : 'viewer.fullEntry')}
+          </span>
+        )}
+        {entry && (
+          <span className="ml-auto pl-2 text-xs text-slate-500 whitespace-nowrap">
+            {formatSize(entry.file.size)} · {t('common.tokens', { count: entry.file.tokens })}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  const renderNode = (node: FileTreeNode, depth: number): React.ReactNode => {
+    if (node.isFile) {
+      const nodeEntries = entries.get(node.path) ?? [];
+      return nodeEntries.map(entry => renderRow(node, depth, [entry.key], entry, nodeEntries.length > 1));
+    }
+
+    return (
+      <div key={node.path}>
+        {renderRow(node, depth, directoryKeys.get(node.path) ?? [])}
+        {!collapsed.has(node.path) && node.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-h-96 overflow-y-auto rounded-lg border border-slate-700/50 bg-slate-900/50 p-2 text-left">
+      {tree.children.map(child => renderNode(child, 0))}
+    </div>
+  );
+};
@@ -1,24 +1,58 @@
 import React, { useState, DragEvent, ChangeEvent } from 'react';
 import { Icon } from './Icon';
+import { PackSource } from '../types';
+import { ARCHIVE_ACCEPT, archiveToSource, directoryEntryToSource, fileListToSource } from '../utils/fileSources';
+import { useI18n } from './I18nProvider';
 
 interface FileUploaderProps {
-  onFileSelect: (file: File) => void;
+  onSourceSelect: (source: PackSource) => void;
+  // Dropped folders are walked on the main thread; skipping excluded directories keeps that fast
+  skipDirectory?: (path: string) => boolean;
   disabled?: boolean;
+  title?: string; // shown above the drop zone text, e.g. when two sources are picked
+  compact?: boolean;
 }
 
-export const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, disabled }) => {
+// File System Access API (Chromium); not part of the DOM typings yet
+type DirectoryPicker = () => Promise<FileSystemDirectoryHandle>;
+const showDirectoryPicker = (window as unknown as { showDirectoryPicker?: DirectoryPicker }).showDirectoryPicker;
+
+export const FileUploader: React.FC<FileUploaderProps> = ({ onSourceSelect, skipDirectory, disabled, title, compact }) => {
+  const { t, tNodes } = useI18n();
   const [isDragActive, setIsDragActive] = useState(false);
 
   const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      onFileSelect(e.target.files[0]);
+      const source = archiveToSource(e.target.files[0]);
+      if (source) {
+        onSourceSelect(source);
+      } else {
+        alert(t('uploader.unsupported'));
+      }
+    }
+  };
+
+  const handleFolderChange = (e: ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      onSourceSelect(fileListToSource(e.target.files));
+    }
+  };
+
+  const handleFolderPick = async (e: React.MouseEvent<HTMLLabelElement>) => {
+    if (!showDirectoryPicker) return; // falls back to the webkitdirectory input
+    e.preventDefault();
+    try {
+      onSourceSelect({ kind: 'directory', handle: await showDirectoryPicker() });
+    } catch (error: any) {
+      // The user closed the picker
+      if (error.name !== 'AbortError') console.error(error);
     }
   };
 
   const handleDrag = (e: DragEvent<HTMLLabelElement>) => {
     e.preventDefault();
     e.stopPropagation();
-    
+
     if (disabled) return;
 
     if (e.type === "dragenter" || e.type === "dragover") {
@@ -28,57 +62,86 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, disabl
     }
   };
 
-  const handleDrop = (e: DragEvent<HTMLLabelElement>) => {
+  const handleDrop = async (e: DragEvent<HTMLLabelElement>) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragActive(false);
-    
+
     if (disabled) return;
 
+    // Entries are only available synchronously, during the drop event
+    const entry = e.dataTransfer.items?.[0]?.webkitGetAsEntry?.();
+    if (entry?.isDirectory) {
+      try {
+        onSourceSelect(await directoryEntryToSource(entry as FileSystemDirectoryEntry, { skipDirectory }));
+      } catch (error) {
+        console.error(error);
+        alert(t('uploader.folderFailed'));
+      }
+      return;
+    }
+
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const file = e.dataTransfer.files[0];
-      if (file.name.toLowerCase().endsWith('.zip')) {
-        onFileSelect(file);
+      const source = archiveToSource(e.dataTransfer.files[0]);
+      if (source) {
+        onSourceSelect(source);
       } else {
-        alert("Пожалуйста, выберите ZIP файл.");
+        alert(t('uploader.chooseSource'));
       }
     }
   };
 
   return (
-    <div className={`w-full ${disabled ? 'pointer-events-none opacity-60' : ''}`}>
+    <div className={`w-full space-y-3 ${disabled ? 'pointer-events-none opacity-60' : ''}`}>
       <label
         onDragEnter={handleDrag}
         onDragLeave={handleDrag}
         onDragOver={handleDrag}
         onDrop={handleDrop}
         className={`
-          flex flex-col items-center justify-center w-full h-64 
-          border-2 border-dashed rounded-lg cursor-pointer 
+          flex flex-col items-center justify-center w-full ${compact ? 'h-40' : 'h-64'}
+          border-2 border-dashed rounded-lg cursor-pointer
           transition-all duration-300
-          ${disabled 
-            ? 'bg-slate-800/50 border-slate-700' 
-            : isDragActive 
-              ? 'bg-blue-500/10 border-blue-500' 
+          ${disabled
+            ? 'bg-slate-800/50 border-slate-700'
+            : isDragActive
+              ? 'bg-blue-500/10 border-blue-500'
               : 'bg-slate-800 border-slate-600 hover:border-blue-500 hover:bg-slate-700/80'
           }
         `}
       >
-        <div className="flex flex-col items-center justify-center pt-5 pb-6">
-          <Icon name="upload" className={`w-12 h-12 mb-4 ${disabled ? 'text-slate-500' : 'text-blue-400'}`} />
+        <div className="flex flex-col items-center justify-center pt-5 pb-6 px-2 text-center">
+          {title && <p className="mb-2 text-sm font-semibold text-white">{title}</p>}
+          <Icon name="upload" className={`${compact ? 'w-8 h-8 mb-2' : 'w-12 h-12 mb-4'} ${disabled ? 'text-slate-500' : 'text-blue-400'}`} />
           <p className="mb-2 text-sm text-slate-300">
-            <span className="font-semibold">Кликните</span> или перетащите файл
+            {tNodes('uploader.prompt', { click: <span className="font-semibold">{t('uploader.click')}</span> })}
           </p>
-          <p className="text-xs text-slate-500">ZIP архив (GitHub Repo)</p>
+          {!compact && <p className="text-xs text-slate-500">{t('uploader.hint')}</p>}
         </div>
-        <input 
-          type="file" 
-          className="hidden" 
-          accept=".zip" 
+        <input
+          type="file"
+          className="hidden"
+          accept={ARCHIVE_ACCEPT}
           onChange={handleChange}
           disabled={disabled}
         />
       </label>
+
+      <label
+        onClick={handleFolderPick}
+        className="flex items-center justify-center gap-2 w-full py-2 rounded-lg border border-slate-700 bg-slate-800 text-sm text-slate-300 cursor-pointer hover:border-blue-500 hover:bg-slate-700/80 transition-colors"
+      >
+        <Icon name="folder" className="w-5 h-5 text-blue-400" />
+        <span>{t('uploader.pickFolder')}</span>
+        <input
+          type="file"
+          className="hidden"
+          // Not in React's input typings
+          ref={el => el?.setAttribute('webkitdirectory', '')}
+          onChange={handleFolderChange}
+          disabled={disabled}
+        />
+      </label>
     </div>
   );
-};
\ No newline at end of file
+};
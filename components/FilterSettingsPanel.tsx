@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { FilterSettings } from '../types';
+import { DEFAULT_FILTER_SETTINGS, parsePatternList } from '../utils/filters';
+import { useI18n } from './I18nProvider';
+
+interface FilterSettingsPanelProps {
+  value: FilterSettings;
+  onChange: (value: FilterSettings) => void;
+}
+
+export const FilterSettingsPanel: React.FC<FilterSettingsPanelProps> = ({ value, onChange }) => {
+  const { t, tNodes } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [includeText, setIncludeText] = useState(value.include.join('\n'));
+  const [excludeText, setExcludeText] = useState(value.exclude.join('\n'));
+
+  const handleIncludeChange = (text: string) => {
+    setIncludeText(text);
+    onChange({ ...value, include: parsePatternList(text) });
+  };
+
+  const handleExcludeChange = (text: string) => {
+    setExcludeText(text);
+    onChange({ ...value, exclude: parsePatternList(text) });
+  };
+
+  const resetToDefaults = () => {
+    setIncludeText(DEFAULT_FILTER_SETTINGS.include.join('\n'));
+    setExcludeText(DEFAULT_FILTER_SETTINGS.exclude.join('\n'));
+    onChange(DEFAULT_FILTER_SETTINGS);
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-700/50 bg-slate-800/50">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm text-slate-300 hover:text-white"
+      >
+        <span>{t('filters.title')}</span>
+        <span className="text-slate-500">{isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4">
+          <p className="text-xs text-slate-500">
+            {tNodes('filters.hint', { examples: <><code>*.vue</code>, <code>docs/</code>, <code>src/**/*.test.ts</code></> })}
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block text-xs text-slate-400">
+              {t('filters.include')}
+              <textarea
+                value={includeText}
+                onChange={e => handleIncludeChange(e.target.value)}
+                rows={8}
+                spellCheck={false}
+                className="mt-1 w-full rounded-md bg-slate-900 border border-slate-700 p-2 font-mono text-xs text-slate-200 focus:border-blue-500 focus:outline-none"
+              />
+            </label>
+            <label className="block text-xs text-slate-400">
+              {t('filters.exclude')}
+              <textarea
+                value={excludeText}
+                onChange={e => handleExcludeChange(e.target.value)}
+                rows={8}
+                spellCheck={false}
+                className="mt-1 w-full rounded-md bg-slate-900 border border-slate-700 p-2 font-mono text-xs text-slate-200 focus:border-blue-500 focus:outline-none"
+              />
+            </label>
+          </div>
+
+          <label className="flex items-center text-xs text-slate-400">
+            <input
+              type="checkbox"
+              checked={value.detectText}
+              onChange={e => onChange({ ...value, detectText: e.target.checked })}
+              className="mr-2 accent-blue-500"
+            />
+            {t('filters.detectText')}
+          </label>
+
+          <button
+            type="button"
+            onClick={resetToDefaults}
+            className="text-xs text-slate-500 hover:text-slate-300 underline decoration-slate-600 underline-offset-4"
+          >
+            {t('filters.reset')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
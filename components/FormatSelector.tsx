@@ -0,0 +1,33 @@
+import React from 'react';
+import { OutputFormatId } from '../types';
+import { OUTPUT_FORMATS } from '../utils/outputFormats';
+import { useI18n } from './I18nProvider';
+
+interface FormatSelectorProps {
+  value: OutputFormatId;
+  onChange: (value: OutputFormatId) => void;
+}
+
+export const FormatSelector: React.FC<FormatSelectorProps> = ({ value, onChange }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex items-center justify-between gap-4 text-xs text-slate-400">
+      <span>{t('format.title')}</span>
+      <div className="flex rounded-md border border-slate-700 overflow-hidden">
+        {OUTPUT_FORMATS.map(format => (
+          <button
+            key={format.id}
+            type="button"
+            onClick={() => onChange(format.id)}
+            className={`px-3 py-1 transition-colors ${
+              value === format.id ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-300 hover:bg-slate-700'
+            }`}
+          >
+            {t(`format.${format.id}`)} <span className="opacity-60">.{format.extension}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import {
+  detectLocale,
+  formatNumber,
+  formatSize,
+  Locale,
+  LocalizedMessage,
+  LOCALES,
+  MessageKey,
+  MessageParams,
+  translate
+} from '../utils/i18n';
+
+const STORAGE_KEY = 'repopacker.locale';
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (message: MessageKey | LocalizedMessage, params?: MessageParams) => string;
+  // Like `t`, with React nodes (links, inputs, <code>) in place of `{name}` placeholders
+  tNodes: (key: MessageKey, nodes: Record<string, React.ReactNode>, params?: MessageParams) => React.ReactNode[];
+  formatNumber: (value: number) => string;
+  formatSize: (bytes: number) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+// A language picked in the app wins over the browser's preference
+const loadLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (LOCALES.some(l => l.id === stored)) return stored as Locale;
+  } catch {
+    // Storage is blocked; fall through to detection
+  }
+  return detectLocale(navigator.languages ?? [navigator.language]);
+};
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(loadLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch (error) {
+      console.warn('Could not save the language', error);
+    }
+  }, []);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    setLocale,
+    t: (message, params) => (typeof message === 'string'
+      ? translate(locale, message, params)
+      : translate(locale, message.key, message.params)),
+    tNodes: (key, nodes, params) =>
+      translate(locale, key, params)
+        .split(/\{(\w+)\}/)
+        .map((part, index) => (index % 2 === 1 ? <React.Fragment key={index}>{nodes[part] ?? `{${part}}`}</React.Fragment> : part)),
+    formatNumber: value => formatNumber(locale, value),
+    formatSize: bytes => formatSize(locale, bytes),
+  }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used inside I18nProvider');
+  return context;
+};
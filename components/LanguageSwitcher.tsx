@@ -0,0 +1,26 @@
+import React from 'react';
+import { LOCALES } from '../utils/i18n';
+import { useI18n } from './I18nProvider';
+
+export const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <div role="group" aria-label={t('language.label')} className="flex rounded-md border border-slate-700 overflow-hidden text-xs">
+      {LOCALES.map(option => (
+        <button
+          key={option.id}
+          type="button"
+          lang={option.id}
+          title={option.name}
+          onClick={() => setLocale(option.id)}
+          className={`px-2 py-1 uppercase transition-colors ${
+            locale === option.id ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-400 hover:bg-slate-700'
+          }`}
+        >
+          {option.id}
+        </button>
+      ))}
+    </div>
+  );
+};
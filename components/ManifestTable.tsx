@@ -0,0 +1,141 @@
+import React, { useMemo, useState } from 'react';
+import { ManifestEntry, ManifestReason } from '../types';
+import { manifestToCsv, manifestToJson, summarizeManifest } from '../utils/manifest';
+import { downloadBlob } from '../utils/download';
+import { Icon } from './Icon';
+import { useI18n } from './I18nProvider';
+
+interface ManifestTableProps {
+  manifest: ManifestEntry[];
+  repoName: string; // used in the export file names
+}
+
+type SortKey = 'path' | 'reason' | 'size' | 'tokens';
+
+// Rendering tens of thousands of rows freezes the page; filters narrow it down
+const MAX_ROWS = 1000;
+
+const COLUMNS: { key: SortKey, numeric?: boolean }[] = [
+  { key: 'path' },
+  { key: 'reason' },
+  { key: 'size', numeric: true },
+  { key: 'tokens', numeric: true },
+];
+
+// Reasons sort by their label, so the order follows the UI language
+const compareEntries = (key: SortKey, reasonLabel: (reason: ManifestReason) => string) => (a: ManifestEntry, b: ManifestEntry): number => {
+  switch (key) {
+    case 'path':
+      return a.path.localeCompare(b.path);
+    case 'reason':
+      return reasonLabel(a.reason).localeCompare(reasonLabel(b.reason)) || a.path.localeCompare(b.path);
+    case 'size':
+      return a.size - b.size;
+    case 'tokens':
+      return (a.tokens ?? -1) - (b.tokens ?? -1);
+  }
+};
+
+const download = (content: string, fileName: string, mimeType: string) =>
+  downloadBlob(new Blob([content], { type: mimeType }), fileName);
+
+/**
+ * Every entry of the source with the reason it was packed or skipped.
+ */
+export const ManifestTable: React.FC<ManifestTableProps> = ({ manifest, repoName }) => {
+  const { t, formatNumber, formatSize } = useI18n();
+  const reasonLabel = (value: ManifestReason) => t(`manifest.reason.${value}`);
+  const [reason, setReason] = useState<ManifestReason | ''>('');
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<{ key: SortKey, descending: boolean }>({ key: 'path', descending: false });
+
+  const summary = useMemo(() => summarizeManifest(manifest), [manifest]);
+
+  const rows = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const filtered = manifest.filter(entry =>
+      (!reason || entry.reason === reason) && (!needle || entry.path.toLowerCase().includes(needle))
+    );
+    const compare = compareEntries(sort.key, reasonLabel);
+    return filtered.sort((a, b) => (sort.descending ? compare(b, a) : compare(a, b)));
+  }, [manifest, reason, query, sort, t]);
+
+  const toggleSort = (key: SortKey) =>
+    setSort(prev => ({ key, descending: prev.key === key ? !prev.descending : key === 'size' || key === 'tokens' }));
+
+  const controlClass = 'rounded-md bg-slate-900 border border-slate-700 px-2 py-1.5 text-xs text-slate-200 focus:border-blue-500 focus:outline-none';
+  const buttonClass = 'flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-slate-700 bg-slate-900 text-xs text-slate-300 hover:border-blue-500';
+
+  return (
+    <details className="text-left text-sm bg-slate-900/50 border border-slate-700/50 rounded-lg px-4 py-3">
+      <summary className="cursor-pointer text-slate-400">
+        {t('manifest.title', { count: manifest.length })}
+      </summary>
+
+      <div className="mt-3 flex flex-wrap gap-2 text-xs text-slate-400">
+        {summary.map(row => (
+          <span key={row.reason} className="rounded-full bg-slate-800 px-2 py-0.5">
+            {reasonLabel(row.reason)}: {row.count} · {formatSize(row.size)}
+          </span>
+        ))}
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <input
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder={t('manifest.filter')}
+          spellCheck={false}
+          className={`flex-1 min-w-[10rem] ${controlClass}`}
+        />
+        <select value={reason} onChange={e => setReason(e.target.value as ManifestReason | '')} className={controlClass}>
+          <option value="">{t('manifest.allReasons')}</option>
+          {summary.map(row => (
+            <option key={row.reason} value={row.reason}>{reasonLabel(row.reason)}</option>
+          ))}
+        </select>
+        <button type="button" onClick={() => download(manifestToCsv(manifest), `${repoName}_manifest.csv`, 'text/csv')} className={buttonClass}>
+          <Icon name="download" className="w-4 h-4" />
+          CSV
+        </button>
+        <button type="button" onClick={() => download(manifestToJson(manifest), `${repoName}_manifest.json`, 'application/json')} className={buttonClass}>
+          <Icon name="download" className="w-4 h-4" />
+          JSON
+        </button>
+      </div>
+
+      <div className="mt-3 max-h-96 overflow-auto rounded-md border border-slate-700/50">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-slate-800 text-slate-400">
+            <tr>
+              {COLUMNS.map(column => (
+                <th
+                  key={column.key}
+                  onClick={() => toggleSort(column.key)}
+                  className={`cursor-pointer select-none px-3 py-2 font-medium hover:text-slate-200 ${column.numeric ? 'text-right' : 'text-left'}`}
+                >
+                  {t(`manifest.${column.key}`)}{sort.key === column.key ? (sort.descending ? ' ↓' : ' ↑') : ''}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800 font-mono text-slate-300">
+            {rows.slice(0, MAX_ROWS).map(entry => (
+              <tr key={`${entry.path}\u0000${entry.reason}`}>
+                <td className="px-3 py-1 max-w-xs truncate" title={entry.path}>{entry.path}</td>
+                <td className="px-3 py-1 whitespace-nowrap text-slate-400" title={entry.detail}>
+                  {reasonLabel(entry.reason)}{entry.detail ? ` (${entry.detail})` : ''}
+                </td>
+                <td className="px-3 py-1 whitespace-nowrap text-right">{formatSize(entry.size)}</td>
+                <td className="px-3 py-1 whitespace-nowrap text-right">{entry.tokens === undefined ? '—' : formatNumber(entry.tokens)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {rows.length > MAX_ROWS && (
+        <p className="mt-2 text-xs text-slate-500">{t('manifest.limited', { shown: MAX_ROWS, count: rows.length })}</p>
+      )}
+    </details>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { PackHistoryEntry } from '../types';
+import { deleteFromHistory, listHistory, MAX_HISTORY_ENTRIES, MAX_HISTORY_SIZE } from '../utils/packHistory';
+import { downloadBlob } from '../utils/download';
+import { Icon } from './Icon';
+import { useI18n } from './I18nProvider';
+
+/**
+ * Recently generated packs, available again after a reset or a reload.
+ */
+export const PackHistory: React.FC = () => {
+  const { locale, t } = useI18n();
+  const [entries, setEntries] = useState<PackHistoryEntry[]>([]);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    listHistory().then(setEntries, error => console.warn('Pack history is unavailable', error));
+  }, []);
+
+  const remove = async (ids: string[]) => {
+    try {
+      await deleteFromHistory(ids);
+      setEntries(await listHistory());
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const copy = async (entry: PackHistoryEntry) => {
+    try {
+      await navigator.clipboard.writeText(await entry.content.text());
+      setCopiedId(entry.id);
+      setTimeout(() => setCopiedId(current => (current === entry.id ? null : current)), 1500);
+    } catch (error) {
+      console.error(error);
+      alert(t('common.copyFailed'));
+    }
+  };
+
+  if (entries.length === 0) return null;
+
+  const totalSize = entries.reduce((sum, e) => sum + e.size, 0);
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleString(locale, { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <details className="rounded-lg border border-slate-700/50 bg-slate-800/50 px-4 py-3 text-left">
+      <summary className="cursor-pointer text-sm text-slate-300">{t('history.title', { count: entries.length })}</summary>
+      <p className="mt-2 text-xs text-slate-500">
+        {t('history.hint', { count: MAX_HISTORY_ENTRIES, size: MAX_HISTORY_SIZE, used: totalSize })}
+      </p>
+      <ul className="mt-3 text-sm divide-y divide-slate-700/50">
+        {entries.map(entry => (
+          <li key={entry.id} className="flex items-center gap-3 py-2">
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-slate-300">{entry.fileName}</p>
+              <p className="text-xs text-slate-500">
+                {formatDate(entry.createdAt)} · {t('common.files', { count: entry.stats.fileCount })} · {t('common.tokens', { count: entry.stats.tokenCount })}
+                {entry.partCount > 1 ? ` · ${t('history.parts', { count: entry.partCount })}` : ''}
+              </p>
+            </div>
+            {entry.partCount === 1 && (
+              <button type="button" onClick={() => copy(entry)} className="text-slate-400 hover:text-blue-300" title={t('common.copy')}>
+                <Icon name={copiedId === entry.id ? 'check' : 'copy'} className="w-5 h-5" />
+              </button>
+            )}
+            <button type="button" onClick={() => downloadBlob(entry.content, entry.fileName)} className="text-blue-400 hover:text-blue-300" title={t('common.download')}>
+              <Icon name="download" className="w-5 h-5" />
+            </button>
+            <button type="button" onClick={() => remove([entry.id])} className="text-slate-500 hover:text-red-400" title={t('common.delete')}>
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={() => remove(entries.map(e => e.id))}
+        className="mt-2 text-xs text-slate-500 hover:text-slate-300 underline underline-offset-4"
+      >
+        {t('history.clear')}
+      </button>
+    </details>
+  );
+};
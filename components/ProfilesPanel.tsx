@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ProfileSettings, SettingsProfile } from '../types';
+import { deleteProfile, exportProfiles, importProfiles, listProfiles, saveProfile } from '../utils/profiles';
+import { downloadBlob } from '../utils/download';
+import { describeError, LocalizedMessage } from '../utils/i18n';
+import { useI18n } from './I18nProvider';
+
+interface ProfilesPanelProps {
+  current: ProfileSettings;
+  onApply: (settings: ProfileSettings) => void;
+}
+
+export const ProfilesPanel: React.FC<ProfilesPanelProps> = ({ current, onApply }) => {
+  const { t } = useI18n();
+  const [profiles, setProfiles] = useState<SettingsProfile[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [name, setName] = useState('');
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Storage can be unavailable (private mode, blocked cookies); the panel then only reports it
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setError(null);
+      await action();
+      setProfiles(await listProfiles());
+    } catch (err: any) {
+      console.error(err);
+      setError(describeError(err, 'error.storageUnavailable'));
+    }
+  };
+
+  useEffect(() => {
+    run(async () => {});
+  }, []);
+
+  const selected = profiles.find(p => p.id === selectedId);
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    const profile = profiles.find(p => p.id === id);
+    if (profile) {
+      setName(profile.name);
+      onApply(profile.settings);
+    }
+  };
+
+  const handleSave = () => run(async () => {
+    const profile = await saveProfile(name.trim(), current);
+    setSelectedId(profile.id);
+  });
+
+  const handleDelete = () => selected && run(async () => {
+    await deleteProfile(selected.id);
+    setSelectedId('');
+  });
+
+  const handleImport = (file: File) => run(async () => {
+    const imported = await importProfiles(await file.text());
+    if (imported.length === 1) {
+      setSelectedId(imported[0].id);
+      setName(imported[0].name);
+      onApply(imported[0].settings);
+    }
+  });
+
+  const handleExport = () => {
+    const content = exportProfiles(selected ? [selected] : profiles);
+    const fileName = selected ? `${selected.name}.repopacker.json` : 'repopacker-profiles.json';
+    downloadBlob(new Blob([content], { type: 'application/json' }), fileName);
+  };
+
+  const controlClass = 'rounded-md bg-slate-900 border border-slate-700 px-2 py-1.5 text-xs text-slate-200 focus:border-blue-500 focus:outline-none';
+  const buttonClass = 'px-3 py-1.5 rounded-md border border-slate-700 bg-slate-900 text-xs text-slate-300 hover:border-blue-500 disabled:opacity-50 disabled:hover:border-slate-700';
+
+  return (
+    <details className="rounded-lg border border-slate-700/50 bg-slate-800/50 px-4 py-3 text-left">
+      <summary className="cursor-pointer text-sm text-slate-300">
+        {selected ? t('profiles.titleSelected', { name: selected.name }) : t('profiles.title')}
+      </summary>
+      <p className="mt-2 text-xs text-slate-500">{t('profiles.hint')}</p>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <select value={selectedId} onChange={e => handleSelect(e.target.value)} className={`flex-1 min-w-[10rem] ${controlClass}`}>
+          <option value="">{profiles.length > 0 ? t('profiles.choose') : t('profiles.empty')}</option>
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+        <button type="button" onClick={handleDelete} disabled={!selected} className={buttonClass}>{t('common.delete')}</button>
+      </div>
+
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder={t('profiles.namePlaceholder')}
+          className={`flex-1 min-w-[10rem] ${controlClass}`}
+        />
+        <button type="button" onClick={handleSave} disabled={!name.trim()} className={buttonClass}>
+          {profiles.some(p => p.name === name.trim()) ? t('profiles.update') : t('profiles.saveCurrent')}
+        </button>
+      </div>
+
+      <div className="mt-2 flex flex-wrap gap-2">
+        <button type="button" onClick={() => importInputRef.current?.click()} className={buttonClass}>{t('profiles.import')}</button>
+        <button type="button" onClick={handleExport} disabled={profiles.length === 0} className={buttonClass}>
+          {selected ? t('profiles.exportOne') : t('profiles.exportAll')}
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {error && <p className="mt-2 text-xs text-red-400">{t(error)}</p>}
+    </details>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { PromptTemplate } from '../types';
+import { BUILT_IN_PROMPT_TEMPLATES, loadCustomTemplates, PROMPT_VARIABLES, saveCustomTemplates } from '../utils/promptTemplates';
+import { MessageKey } from '../utils/i18n';
+import { useI18n } from './I18nProvider';
+
+interface PromptTemplatePanelProps {
+  value: PromptTemplate | null; // the template as edited, null for no prompt
+  onChange: (value: PromptTemplate | null) => void;
+}
+
+export const PromptTemplatePanel: React.FC<PromptTemplatePanelProps> = ({ value, onChange }) => {
+  const { t } = useI18n();
+  const [customTemplates, setCustomTemplates] = useState<PromptTemplate[]>(loadCustomTemplates);
+  // Presets are shown under their name in the current language
+  const builtInTemplates = BUILT_IN_PROMPT_TEMPLATES.map(template => ({ ...template, name: t(`prompt.template.${template.id}` as MessageKey) }));
+  const templates = [...builtInTemplates, ...customTemplates];
+  const saved = value && templates.find(t => t.id === value.id);
+  const isDirty = !!value && (!saved || saved.name !== value.name || saved.preamble !== value.preamble || saved.postamble !== value.postamble);
+
+  const updateCustom = (next: PromptTemplate[]) => {
+    setCustomTemplates(next);
+    saveCustomTemplates(next);
+  };
+
+  // Presets are never overwritten: saving an edited preset creates a copy
+  const save = () => {
+    if (!value) return;
+    if (value.builtIn || !customTemplates.some(t => t.id === value.id)) {
+      const copy: PromptTemplate = {
+        ...value,
+        id: `custom-${Date.now()}`,
+        name: value.builtIn && saved?.name === value.name ? t('prompt.copyName', { name: value.name }) : value.name,
+        builtIn: undefined,
+      };
+      updateCustom([...customTemplates, copy]);
+      onChange(copy);
+    } else {
+      updateCustom(customTemplates.map(t => (t.id === value.id ? value : t)));
+    }
+  };
+
+  const remove = () => {
+    if (!value || value.builtIn) return;
+    updateCustom(customTemplates.filter(t => t.id !== value.id));
+    onChange(null);
+  };
+
+  const controlClass = 'w-full rounded-md bg-slate-900 border border-slate-700 px-2 py-1.5 text-xs text-slate-200 focus:border-blue-500 focus:outline-none';
+  const buttonClass = 'px-3 py-1.5 rounded-md border border-slate-700 bg-slate-900 text-xs text-slate-300 hover:border-blue-500 disabled:opacity-50 disabled:hover:border-slate-700';
+
+  return (
+    <div className="rounded-lg border border-slate-700/50 bg-slate-800/50 px-4 py-3 space-y-3 text-left">
+      <div className="flex items-center justify-between gap-3 text-sm text-slate-300">
+        <span>{t('prompt.title')}</span>
+        <select
+          value={value?.id ?? ''}
+          onChange={e => onChange(templates.find(t => t.id === e.target.value) ?? null)}
+          className="rounded-md bg-slate-900 border border-slate-700 px-2 py-1 text-sm text-slate-200 focus:border-blue-500 focus:outline-none"
+        >
+          <option value="">{t('prompt.none')}</option>
+          {value && !saved && <option value={value.id}>{value.name}</option>}
+          <optgroup label={t('prompt.builtIn')}>
+            {builtInTemplates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </optgroup>
+          {customTemplates.length > 0 && (
+            <optgroup label={t('prompt.custom')}>
+              {customTemplates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+      </div>
+
+      {value && (
+        <>
+          <label className="block text-xs text-slate-400">
+            {t('prompt.name')}
+            <input value={value.name} onChange={e => onChange({ ...value, name: e.target.value })} className={`mt-1 ${controlClass}`} />
+          </label>
+          <label className="block text-xs text-slate-400">
+            {t('prompt.preamble')}
+            <textarea
+              value={value.preamble}
+              onChange={e => onChange({ ...value, preamble: e.target.value })}
+              rows={3}
+              spellCheck={false}
+              className={`mt-1 font-mono ${controlClass}`}
+            />
+          </label>
+          <label className="block text-xs text-slate-400">
+            {t('prompt.postamble')}
+            <textarea
+              value={value.postamble}
+              onChange={e => onChange({ ...value, postamble: e.target.value })}
+              rows={3}
+              spellCheck={false}
+              className={`mt-1 font-mono ${controlClass}`}
+            />
+          </label>
+          <p className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-slate-500">
+            <span>{t('prompt.variables')}</span>
+            {PROMPT_VARIABLES.map(variable => (
+              <code key={variable} title={t(`prompt.variable.${variable}`)} className="text-slate-400">{`{{${variable}}}`}</code>
+            ))}
+          </p>
+        </>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button type="button" onClick={() => onChange({ id: `custom-${Date.now()}`, name: t('prompt.newName'), preamble: '', postamble: '' })} className={buttonClass}>
+          {t('prompt.new')}
+        </button>
+        <button type="button" onClick={save} disabled={!isDirty} className={buttonClass}>
+          {value?.builtIn ? t('prompt.saveCopy') : t('prompt.save')}
+        </button>
+        <button type="button" onClick={remove} disabled={!value || value.builtIn || !saved} className={buttonClass}>
+          {t('common.delete')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,225 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ProcessedFile } from '../types';
+import { OutputFormat } from '../utils/outputFormats';
+import { HighlightKind, highlightLines } from '../utils/syntaxHighlight';
+import { FileTreeSelector } from './FileTreeSelector';
+import { Icon } from './Icon';
+import { useI18n } from './I18nProvider';
+
+interface ResultViewerProps {
+  files: ProcessedFile[]; // packed entries, as they appear in the output
+  format: OutputFormat;
+  // Reads the whole document; unavailable for split packs and packs written to disk
+  loadPackText?: () => Promise<string>;
+}
+
+interface SearchMatch {
+  index: number; // entry in `files`
+  path: string;
+  line: number; // 1-based
+  text: string;
+}
+
+const MAX_MATCHES = 500;
+// Longer files render the first lines until the user asks for the rest
+const INITIAL_LINE_LIMIT = 3000;
+
+const TOKEN_CLASSES: Record<HighlightKind, string> = {
+  plain: 'text-slate-200',
+  keyword: 'text-violet-300',
+  number: 'text-amber-300',
+  string: 'text-emerald-300',
+  comment: 'text-slate-500 italic',
+  added: 'text-emerald-300 bg-emerald-500/10',
+  removed: 'text-red-300 bg-red-500/10',
+  meta: 'text-sky-300',
+};
+
+// Diff packs may hold a diff and the new version under one path, so entries are keyed by position
+const entryKey = (_file: ProcessedFile, index: number): string => String(index);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findMatches = (files: ProcessedFile[], query: string): SearchMatch[] => {
+  const needle = query.toLowerCase();
+  const matches: SearchMatch[] = [];
+  for (const [index, file] of files.entries()) {
+    if (!file.content.toLowerCase().includes(needle)) continue;
+    const lines = file.content.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i].toLowerCase().includes(needle)) continue;
+      matches.push({ index, path: file.path, line: i + 1, text: lines[i].trim() });
+      if (matches.length >= MAX_MATCHES) return matches;
+    }
+  }
+  return matches;
+};
+
+// Wraps search hits inside a token in <mark>
+const renderText = (text: string, pattern: RegExp | null): React.ReactNode => {
+  if (!pattern) return text;
+  return text.split(pattern).map((piece, index) =>
+    index % 2 === 1 ? <mark key={index} className="bg-amber-400/40 text-inherit rounded-sm">{piece}</mark> : piece
+  );
+};
+
+export const ResultViewer: React.FC<ResultViewerProps> = ({ files, format, loadPackText }) => {
+  const { t } = useI18n();
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [targetLine, setTargetLine] = useState<number | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(files.map(entryKey)));
+  const [query, setQuery] = useState('');
+  const [showAllLines, setShowAllLines] = useState(false);
+  const [copied, setCopied] = useState<string | null>(null);
+  const codeRef = useRef<HTMLDivElement>(null);
+
+  const activeFile: ProcessedFile | undefined = files[activeIndex];
+  const lines = useMemo(
+    () => (activeFile ? highlightLines(activeFile.path, activeFile.content, activeFile.isDiff) : []),
+    [activeFile]
+  );
+
+  const trimmedQuery = query.trim();
+  const matches = useMemo(() => (trimmedQuery.length >= 2 ? findMatches(files, trimmedQuery) : []), [files, trimmedQuery]);
+  const highlightPattern = trimmedQuery.length >= 2 ? new RegExp(`(${escapeRegExp(trimmedQuery)})`, 'gi') : null;
+
+  const isSelected = (file: ProcessedFile, index: number) => selected.has(entryKey(file, index));
+  const selectedTokens = files.filter(isSelected).reduce((sum, f) => sum + f.tokens, 0);
+  const visibleLines = showAllLines ? lines : lines.slice(0, INITIAL_LINE_LIMIT);
+
+  // Entry keys are positions, so a new pack starts over with everything selected
+  useEffect(() => {
+    setSelected(new Set(files.map(entryKey)));
+    setActiveIndex(0);
+  }, [files]);
+
+  useEffect(() => {
+    setShowAllLines(false);
+    codeRef.current?.scrollTo({ top: 0 });
+  }, [activeIndex]);
+
+  // Bring the line picked in the search results into view
+  useEffect(() => {
+    if (targetLine === null) return;
+    if (targetLine > INITIAL_LINE_LIMIT && !showAllLines) {
+      setShowAllLines(true);
+      return;
+    }
+    codeRef.current?.querySelector(`[data-line="${targetLine}"]`)?.scrollIntoView({ block: 'center' });
+  }, [activeIndex, targetLine, showAllLines]);
+
+  const copy = async (key: string, getText: () => string | Promise<string>) => {
+    try {
+      await navigator.clipboard.writeText(await getText());
+      setCopied(key);
+      setTimeout(() => setCopied(current => (current === key ? null : current)), 1500);
+    } catch (error) {
+      console.error(error);
+      alert(t('common.copyFailed'));
+    }
+  };
+
+  // The selected entries exactly as they appear in the pack
+  const renderSelection = () =>
+    files.filter(isSelected).map(f => format.renderFile(f)).join(format.fileSeparator);
+
+  const openFile = (index: number, line: number | null = null) => {
+    setActiveIndex(index);
+    setTargetLine(line);
+  };
+
+  const buttonClass = 'flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-slate-700 bg-slate-900 text-xs text-slate-300 hover:border-blue-500 disabled:opacity-50 disabled:hover:border-slate-700';
+
+  return (
+    <div className="space-y-3 text-left">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[12rem]">
+          <Icon name="search" className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder={t('viewer.search')}
+            spellCheck={false}
+            className="w-full rounded-md bg-slate-900 border border-slate-700 pl-8 pr-2 py-1.5 text-sm text-slate-200 focus:border-blue-500 focus:outline-none"
+          />
+        </div>
+        <button type="button" onClick={() => copy('all', loadPackText!)} disabled={!loadPackText} className={buttonClass}
+          title={loadPackText ? undefined : t('viewer.copyAllUnavailable')}>
+          <Icon name={copied === 'all' ? 'check' : 'copy'} className="w-4 h-4" />
+          {t('viewer.copyAll')}
+        </button>
+        <button type="button" onClick={() => copy('selection', renderSelection)} disabled={selected.size === 0} className={buttonClass}>
+          <Icon name={copied === 'selection' ? 'check' : 'copy'} className="w-4 h-4" />
+          {t('viewer.copySelected', { count: selected.size, tokens: t('common.tokens', { count: selectedTokens }) })}
+        </button>
+      </div>
+
+      {trimmedQuery.length >= 2 && (
+        <div className="max-h-48 overflow-y-auto rounded-lg border border-slate-700/50 bg-slate-900/50 text-xs">
+          <p className="sticky top-0 bg-slate-900 px-3 py-1.5 text-slate-500">
+            {t('viewer.matches', { count: matches.length >= MAX_MATCHES ? `${MAX_MATCHES}+` : matches.length })}
+          </p>
+          {matches.map((match, index) => (
+            <button
+              key={index}
+              type="button"
+              onClick={() => openFile(match.index, match.line)}
+              className="flex w-full gap-2 px-3 py-1 text-left hover:bg-slate-700/40"
+            >
+              <span className="shrink-0 text-blue-300 font-mono">{match.path}:{match.line}</span>
+              <span className="truncate text-slate-400 font-mono">{renderText(match.text, highlightPattern)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid gap-3 md:grid-cols-[18rem_minmax(0,1fr)]">
+        <FileTreeSelector
+          files={files}
+          selected={selected}
+          onChange={setSelected}
+          entryKey={entryKey}
+          activeKey={entryKey(files[activeIndex], activeIndex)}
+          onOpen={key => openFile(Number(key))}
+        />
+
+        <div className="flex flex-col min-w-0 rounded-lg border border-slate-700/50 bg-slate-900/50">
+          {activeFile ? (
+            <>
+              <div className="flex items-center gap-3 border-b border-slate-700/50 px-3 py-2 text-xs">
+                <span className="truncate font-mono text-slate-300">{activeFile.path}</span>
+                <span className="ml-auto whitespace-nowrap text-slate-500">
+                  {t('viewer.fileInfo', { count: lines.length, tokens: t('common.tokens', { count: activeFile.tokens }) })}
+                </span>
+                <button type="button" onClick={() => copy('file', () => activeFile.content)} className="text-slate-400 hover:text-blue-300" title={t('viewer.copyFile')}>
+                  <Icon name={copied === 'file' ? 'check' : 'copy'} className="w-4 h-4" />
+                </button>
+              </div>
+              <div ref={codeRef} className="max-h-[32rem] overflow-auto">
+                <pre className="py-2 font-mono text-xs leading-5">
+                  {visibleLines.map((tokens, index) => (
+                    <div key={index} data-line={index + 1} className={`flex ${targetLine === index + 1 ? 'bg-blue-500/15' : ''}`}>
+                      <span className="w-12 shrink-0 select-none pr-3 text-right text-slate-600">{index + 1}</span>
+                      <code className="whitespace-pre pr-4">
+                        {tokens.map((token, i) => (
+                          <span key={i} className={TOKEN_CLASSES[token.kind]}>{renderText(token.text, highlightPattern)}</span>
+                        ))}
+                      </code>
+                    </div>
+                  ))}
+                </pre>
+                {visibleLines.length < lines.length && (
+                  <button type="button" onClick={() => setShowAllLines(true)} className="w-full py-2 text-xs text-blue-400 hover:text-blue-300">
+                    {t('viewer.showMore', { count: lines.length - visibleLines.length })}
+                  </button>
+                )}
+              </div>
+            </>
+          ) : (
+            <p className="p-6 text-center text-sm text-slate-500">{t('viewer.selectFile')}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
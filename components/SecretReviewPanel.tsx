@@ -0,0 +1,86 @@
+import React, { useMemo } from 'react';
+import { SecretAction, SecretFinding } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface SecretReviewPanelProps {
+  findings: SecretFinding[];
+  actions: Record<string, SecretAction>;
+  onChange: (actions: Record<string, SecretAction>) => void;
+}
+
+const ACTIONS: SecretAction[] = ['redact', 'exclude', 'keep'];
+
+export const SecretReviewPanel: React.FC<SecretReviewPanelProps> = ({ findings, actions, onChange }) => {
+  const { t } = useI18n();
+  const byFile = useMemo(() => {
+    const groups = new Map<string, SecretFinding[]>();
+    findings.forEach(f => groups.set(f.path, [...(groups.get(f.path) ?? []), f]));
+    return Array.from(groups.entries());
+  }, [findings]);
+
+  const setAction = (finding: SecretFinding, action: SecretAction) => {
+    const next = { ...actions, [finding.id]: action };
+    // Excluding is a per-file decision, so it applies to every finding in that file
+    findings
+      .filter(f => f.path === finding.path)
+      .forEach(f => {
+        if (action === 'exclude') next[f.id] = 'exclude';
+        else if (actions[f.id] === 'exclude') next[f.id] = action;
+      });
+    onChange(next);
+  };
+
+  const setAll = (action: SecretAction) => {
+    onChange({ ...actions, ...Object.fromEntries(findings.map(f => [f.id, action])) });
+  };
+
+  return (
+    <div className="space-y-3 text-left">
+      <div className="flex justify-end gap-3 text-xs">
+        {(['redact', 'keep'] as SecretAction[]).map(action => (
+          <button
+            key={action}
+            type="button"
+            onClick={() => setAll(action)}
+            className="text-slate-500 hover:text-slate-300 underline decoration-slate-600 underline-offset-4"
+          >
+            {t('secrets.applyToAll', { action: t(`secrets.action.${action}`) })}
+          </button>
+        ))}
+      </div>
+
+      <div className="max-h-96 overflow-y-auto space-y-3">
+        {byFile.map(([path, fileFindings]) => (
+          <div key={path} className="rounded-lg border border-slate-700/50 bg-slate-900/50">
+            <div className="px-3 py-2 border-b border-slate-700/50 font-mono text-xs text-slate-300 truncate">{path}</div>
+            <ul className="divide-y divide-slate-700/30">
+              {fileFindings.map(finding => (
+                <li key={finding.id} className="px-3 py-2 flex flex-wrap items-center gap-2 text-xs">
+                  <span className="text-slate-500 w-14">{t('secrets.line', { line: String(finding.line) })}</span>
+                  <span className="text-amber-300">{finding.ruleLabel}</span>
+                  <code className="text-slate-500">{finding.preview}</code>
+                  <div className="ml-auto flex rounded-md border border-slate-700 overflow-hidden">
+                    {ACTIONS.map(action => (
+                      <button
+                        key={action}
+                        type="button"
+                        onClick={() => setAction(finding, action)}
+                        className={`px-2 py-1 transition-colors ${
+                          (actions[finding.id] ?? 'redact') === action
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-slate-900 text-slate-300 hover:bg-slate-700'
+                        }`}
+                      >
+                        {t(`secrets.action.${action}`)}
+                      </button>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
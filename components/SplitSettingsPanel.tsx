@@ -0,0 +1,57 @@
+import React from 'react';
+import { SplitSettings } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface SplitSettingsPanelProps {
+  value: SplitSettings;
+  onChange: (value: SplitSettings) => void;
+}
+
+export const SplitSettingsPanel: React.FC<SplitSettingsPanelProps> = ({ value, onChange }) => {
+  const { t } = useI18n();
+  const controlClass = 'rounded-md bg-slate-900 border border-slate-700 px-2 py-1 text-xs text-slate-200 focus:border-blue-500 focus:outline-none';
+
+  return (
+    <div className="rounded-lg border border-slate-700/50 bg-slate-800/50 px-4 py-3 space-y-3 text-left">
+      <label className="flex items-center text-sm text-slate-300">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={e => onChange({ ...value, enabled: e.target.checked })}
+          className="mr-2 accent-blue-500"
+        />
+        {t('split.enable')}
+      </label>
+
+      {value.enabled && (
+        <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+          <span>{t('split.atMost')}</span>
+          <input
+            type="number"
+            min={1}
+            value={value.maxSize}
+            onChange={e => onChange({ ...value, maxSize: Math.max(1, Number(e.target.value) || 1) })}
+            className={`${controlClass} w-28`}
+          />
+          <select
+            value={value.unit}
+            onChange={e => onChange({ ...value, unit: e.target.value as SplitSettings['unit'] })}
+            className={controlClass}
+          >
+            <option value="tokens">{t('split.unit.tokens')}</option>
+            <option value="bytes">{t('split.unit.bytes')}</option>
+          </select>
+          <span>{t('split.perPart')}</span>
+          <select
+            value={value.header}
+            onChange={e => onChange({ ...value, header: e.target.value as SplitSettings['header'] })}
+            className={controlClass}
+          >
+            <option value="tree">{t('split.header.tree')}</option>
+            <option value="index">{t('split.header.index')}</option>
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
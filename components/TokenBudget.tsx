@@ -0,0 +1,50 @@
+import React from 'react';
+import { getModelPreset, MODEL_PRESETS } from '../utils/tokenizer';
+import { useI18n } from './I18nProvider';
+
+interface TokenBudgetProps {
+  modelId: string;
+  onModelChange?: (modelId: string) => void;
+  tokenCount?: number;
+}
+
+export const TokenBudget: React.FC<TokenBudgetProps> = ({ modelId, onModelChange, tokenCount }) => {
+  const { t } = useI18n();
+  const model = getModelPreset(modelId);
+  const usage = tokenCount !== undefined ? tokenCount / model.contextWindow : 0;
+  const isOver = usage > 1;
+
+  return (
+    <div className="space-y-2 text-left">
+      {onModelChange && (
+        <label className="flex items-center justify-between gap-4 text-xs text-slate-400">
+          <span>{t('tokenBudget.model')}</span>
+          <select
+            value={model.id}
+            onChange={e => onModelChange(e.target.value)}
+            className="rounded-md bg-slate-900 border border-slate-700 px-2 py-1 text-xs text-slate-200 focus:border-blue-500 focus:outline-none"
+          >
+            {MODEL_PRESETS.map(m => (
+              <option key={m.id} value={m.id}>{m.approximate ? t('tokenBudget.approximate', { label: m.label }) : m.label}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {tokenCount !== undefined && (
+        <>
+          <div className="w-full bg-slate-700 rounded-full h-1.5 overflow-hidden">
+            <div
+              className={`h-1.5 rounded-full transition-all duration-300 ${isOver ? 'bg-red-500' : usage > 0.8 ? 'bg-amber-400' : 'bg-emerald-500'}`}
+              style={{ width: `${Math.min(usage, 1) * 100}%` }}
+            ></div>
+          </div>
+          <p className={`text-xs ${isOver ? 'text-red-400' : 'text-slate-500'}`}>
+            {t('tokenBudget.usage', { used: tokenCount, count: model.contextWindow, tokenizer: model.tokenizer })}
+            {isOver && t('tokenBudget.over', { count: tokenCount - model.contextWindow })}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,340 @@
+import type { MessageText } from '../utils/i18n';
+
+/**
+ * English messages. This catalog defines the message keys; every other
+ * locale has to provide the same set.
+ */
+export const en = {
+  'unit.kb': 'KB',
+  'unit.mb': 'MB',
+  'unit.gb': 'GB',
+
+  'common.tokens': '{count} tok',
+  'common.files': { one: '{count} file', other: '{count} files' },
+  'common.delete': 'Delete',
+  'common.cancel': 'Cancel',
+  'common.copy': 'Copy',
+  'common.download': 'Download',
+  'common.copyFailed': 'Could not copy to the clipboard.',
+
+  'language.label': 'Language',
+
+  'app.subtitle': 'Turn any GitHub repository (ZIP or TAR.GZ) or a local folder into a single context file for LLMs.',
+  'app.mode.single': 'Single project',
+  'app.mode.compare': 'Compare two versions',
+  'app.compare.before': 'Before the changes',
+  'app.compare.after': 'After the changes',
+  'app.compare.change': 'Change',
+  'app.compare.run': 'Compare',
+  'app.sourceNote': 'Supports .zip, .tar, .tar.gz and .tgz archives (up to {limit} MB) and folders. Everything is processed locally.',
+  'app.selectFiles': 'Select files',
+  'app.selectionSummary': {
+    one: 'Selected {selected} of {count} file · {size}',
+    other: 'Selected {selected} of {count} files · {size}',
+  },
+  'app.saveToDisk': 'Write the result straight to a file on disk (for very large projects)',
+  'app.includeOverview': 'Start with a project overview: languages, folders, largest files, manifests',
+  'app.dedup': 'Print identical files once, later copies as a reference to the first one',
+  'app.dedupWhitespace': 'Also treat files that differ only in whitespace as copies',
+  'app.appendReport': 'Append the packing report at the end',
+  'app.archiveIssues': 'Archive entries skipped or renamed: {count}',
+  'app.secretsFound': 'Possible secrets found: {count}. Review them before building.',
+  'app.reviewSecrets': 'Review secrets',
+  'app.build': 'Build {format}',
+  'app.secretsTitle': 'Secret review',
+  'app.secretsDescription': 'These fragments look like keys or passwords. Choose what to do with them before building.',
+  'app.backToSelection': 'Back to file selection',
+  'app.foundFiles': { one: 'Found {count} file ({size})', other: 'Found {count} files ({size})' },
+  'app.tryAgain': 'Try again',
+  'app.completed': 'Archive processed!',
+  'app.savedTo': 'The result was saved to {name}.',
+  'app.fileReady': 'The file {name} is ready.',
+  'app.textSize': '{size} of text',
+  'app.tokensSaved': '−{count} tok by compression',
+  'app.truncatedFiles': 'truncated: {count}',
+  'app.generatedFiles': 'generated skipped: {count}',
+  'app.duplicates': 'duplicates: {count} (−{size}, −{tokens} tok)',
+  'app.skippedBinaries': 'Binary files skipped: {count}',
+  'app.downloadParts': 'Download all parts ({count}) as ZIP',
+  'app.download': 'Download {format}',
+  'app.processAnother': 'Process another project',
+
+  'progress.readingFile': 'Reading the file...',
+  'progress.readingBefore': 'Reading the original version...',
+  'progress.before': 'Before: {message}',
+  'progress.after': 'After: {message}',
+  'progress.readingZip': 'Reading the ZIP archive...',
+  'progress.extractingTar': 'Extracting the TAR archive...',
+  'progress.readingFolder': 'Reading the folder...',
+  'progress.emptyArchive': 'The archive is empty',
+  'progress.loadingTokenizer': 'Loading the tokenizer...',
+  'progress.readingGitignore': 'Reading .gitignore...',
+  'progress.analyzingFiles': 'Analyzing files...',
+  'progress.processingFile': 'Processing: {name}',
+  'progress.selectFiles': 'Select files',
+  'progress.reviewingSecrets': 'Reviewing secrets',
+  'progress.applyingSecrets': 'Applying secret decisions...',
+  'progress.buildingChanges': 'Building the changes...',
+  'progress.compressing': 'Compressing the content...',
+  'progress.buildingPack': 'Building the final {format}...',
+  'progress.done': 'Done!',
+
+  'error.unknown': 'Unknown error',
+  'error.unexpected': '{message}',
+  'error.validation': 'Validation error',
+  'error.processing': 'An error occurred during processing.',
+  'error.comparing': 'An error occurred during the comparison.',
+  'error.worker': 'Background worker error',
+  'error.sourceTooLarge': 'The file is too large ({name}). Maximum size: {max, size}',
+  'error.unsupportedArchive': 'Unsupported format. Supported archives: .zip, .tar, .tar.gz and .tgz.',
+  'error.zipOpen': 'Could not open the ZIP file. It may be corrupted.',
+  'error.zipEntry': 'Could not extract {path}. The archive may be corrupted.',
+  'error.zipLocalHeader': 'The local header of {path} is corrupted. The archive may be damaged.',
+  'error.tarOpen': 'Could not open the TAR archive. It may be corrupted.',
+  'error.archiveEntries': 'The archive has {count} entries, at most {max} are allowed.',
+  'error.archiveSize': 'The extracted size of the archive, {size, size}, exceeds the allowed {max, size}.',
+  'error.archiveRatio': 'Entry {path} is compressed {ratio} times (at most {max} allowed). The archive looks like a zip bomb.',
+  'error.archiveTotalRatio': '{count} archive entries expand from {compressed, size} to {size, size}, {ratio} times (at most {max} allowed). The archive looks like a zip bomb.',
+  'error.entrySize': '{path}: the extracted data exceeds {max, size}.',
+  'error.partTooSmall': 'The part limit is smaller than the header with the project structure. Increase the limit or use the compact index.',
+  'error.profilesNotJson': 'The profiles file is not JSON.',
+  'error.profilesMissing': 'The file contains no list of profiles.',
+  'error.profilesTooNew': 'The profiles file was created by a newer version of the app.',
+  'error.profileCorrupted': 'Profile #{number} is corrupted.',
+  'error.profileInvalidSetting': 'Profile #{number} has an invalid value for {setting}.',
+  'error.storageUnavailable': 'Browser storage is unavailable.',
+
+  'archiveIssue.encrypted': 'encrypted',
+  'archiveIssue.symlink': 'symbolic link',
+  'archiveIssue.unsafe-path': 'unsafe path',
+  'archiveIssue.duplicate': 'duplicate path',
+  'archiveIssue.too-large': 'too large',
+  'archiveIssue.unsupported': 'unsupported compression',
+
+  'uploader.unsupported': 'Supported archives: .zip, .tar, .tar.gz and .tgz.',
+  'uploader.folderFailed': 'Could not read the folder.',
+  'uploader.chooseSource': 'Please choose an archive (.zip, .tar, .tar.gz, .tgz) or a folder.',
+  'uploader.prompt': '{click} or drag a file or folder here',
+  'uploader.click': 'Click',
+  'uploader.hint': 'ZIP or TAR.GZ archive (GitHub, GitLab, CI) or a project folder',
+  'uploader.pickFolder': 'Choose a folder',
+
+  'tokenBudget.model': 'Model / context window',
+  'tokenBudget.approximate': '{label}, approximate',
+  'tokenBudget.usage': { one: '{used} / {count} token ({tokenizer})', other: '{used} / {count} tokens ({tokenizer})' },
+  'tokenBudget.over': ' — exceeds the model context by {count}',
+
+  'format.title': 'Output format',
+  'format.markdown': 'Markdown',
+  'format.xml': 'XML',
+  'format.json': 'JSON',
+  'format.plain': 'Plain text',
+
+  'filters.title': 'Filter settings',
+  'filters.hint': 'One pattern per line, .gitignore syntax (for example {examples}).',
+  'filters.include': 'Include',
+  'filters.exclude': 'Exclude',
+  'filters.detectText': 'Detect text files by their content (not only by the “Include” patterns)',
+  'filters.reset': 'Reset to defaults',
+
+  'archiveLimits.title': 'Extraction limits',
+  'archiveLimits.hint': 'Zip bomb protection, checked against the archive listing before extraction. Files over the limit are skipped, any other violation cancels processing.',
+  'archiveLimits.maxTotalSize': 'Total after extraction',
+  'archiveLimits.maxEntrySize': 'Single file',
+  'archiveLimits.maxCompressionRatio': 'Compression ratio (per file and overall)',
+  'archiveLimits.maxEntries': 'Entries in the archive',
+
+  'fileLimits.title': 'Per-file limits',
+  'fileLimits.hint': 'A single huge file (bundle, snapshot, data dump) will not take over the whole pack. 0 means no limit.',
+  'fileLimits.maxBytes': 'File size',
+  'fileLimits.maxLines': 'Lines per file',
+  'fileLimits.keepLines': 'Lines to keep',
+  'fileLimits.action': 'When over',
+  'fileLimits.action.skip': 'Skip the file',
+  'fileLimits.action.head': 'Keep the beginning',
+  'fileLimits.action.head-tail': 'Keep the beginning and the end',
+  'fileLimits.excludeGenerated': 'Skip minified and generated files (.min.js, .map, @generated, DO NOT EDIT)',
+
+  'contentHandlers.title': 'Notebooks, tables and data files',
+  'contentHandlers.hint': 'Jupyter notebooks become code and markdown cells, CSV/TSV keep the header and the first rows, large JSON/YAML become a shape summary with an excerpt. The heading of each file says what was done.',
+  'contentHandlers.enabled': 'Convert notebooks, tables, data files and SVG',
+  'contentHandlers.notebookOutputs': 'Cell outputs',
+  'contentHandlers.notebookOutputs.strip': 'Remove',
+  'contentHandlers.notebookOutputs.truncate': 'Keep the beginning',
+  'contentHandlers.outputLines': 'Output lines per cell',
+  'contentHandlers.tableRows': 'Table rows',
+  'contentHandlers.dataMaxBytes': 'Summarize JSON/YAML over',
+  'contentHandlers.svg': 'SVG images',
+  'contentHandlers.svg.include': 'Include as is',
+  'contentHandlers.svg.summarize': 'Summarize',
+
+  'compression.title': 'Code compression',
+  'compression.level.full': 'Full',
+  'compression.level.strip': 'No comments',
+  'compression.level.outline': 'Signatures only',
+  'compression.rules': 'Level for individual files',
+  'compression.rulesHint': 'One rule per line: a .gitignore pattern and the level {full}, {strip} or {outline} (for example {example}). The last matching rule wins.',
+
+  'split.enable': 'Split into parts',
+  'split.atMost': 'At most',
+  'split.unit.tokens': 'tokens',
+  'split.unit.bytes': 'bytes',
+  'split.perPart': 'per part, each with',
+  'split.header.tree': 'the full structure',
+  'split.header.index': 'a list of its files',
+
+  'dependencies.enable': 'Only the dependencies of entry points',
+  'dependencies.hint': 'TS/JS imports (including tsconfig paths), Python and Go. The file selection below is replaced with the reachable files.',
+  'dependencies.entryPlaceholder': 'Path of an entry point file',
+  'dependencies.add': 'Add',
+  'dependencies.depth': 'Depth',
+  'dependencies.depthUnit': 'import levels',
+  'dependencies.reachable': 'Reachable files: {count}',
+
+  'diff.changes': 'Changes:',
+  'diff.added': '+{count} added',
+  'diff.modified': '~{count} modified',
+  'diff.removed': '−{count} removed',
+  'diff.context': 'Context lines in the diff',
+  'diff.includeNewVersion': 'Also add the full new version of changed files',
+
+  'secrets.action.redact': 'Redact',
+  'secrets.action.exclude': 'Exclude file',
+  'secrets.action.keep': 'Keep',
+  'secrets.applyToAll': '{action} all',
+  'secrets.line': 'line {line}',
+
+  'prompt.title': 'Prompt template',
+  'prompt.none': 'No template',
+  'prompt.builtIn': 'Built-in',
+  'prompt.custom': 'My templates',
+  'prompt.name': 'Name',
+  'prompt.preamble': 'Before the pack',
+  'prompt.postamble': 'After the pack',
+  'prompt.variables': 'Variables:',
+  'prompt.new': 'New',
+  'prompt.newName': 'New template',
+  'prompt.copyName': '{name} (copy)',
+  'prompt.save': 'Save',
+  'prompt.saveCopy': 'Save a copy',
+  'prompt.template.code-review': 'Code review',
+  'prompt.template.bug-hunt': 'Bug hunt',
+  'prompt.template.documentation': 'Documentation',
+  'prompt.variable.repoName': 'Project name',
+  'prompt.variable.fileCount': 'Number of files in the pack',
+  'prompt.variable.tokenCount': 'Tokens of the file contents (without the template and headings)',
+  'prompt.variable.tree': 'Project structure',
+  'prompt.variable.date': 'Build date (YYYY-MM-DD)',
+
+  'profiles.title': 'Settings profiles',
+  'profiles.titleSelected': 'Settings profiles: {name}',
+  'profiles.hint': 'Filters, limits, model, format, compression, splitting and the prompt template. Profiles are stored in the browser; export them to JSON to share them with your team.',
+  'profiles.choose': 'Choose a profile',
+  'profiles.empty': 'No saved profiles',
+  'profiles.namePlaceholder': 'Name, for example “frontend only”',
+  'profiles.update': 'Update',
+  'profiles.saveCurrent': 'Save current',
+  'profiles.import': 'Import JSON',
+  'profiles.exportOne': 'Export profile',
+  'profiles.exportAll': 'Export all',
+
+  'history.title': 'Recent packs: {count}',
+  'history.hint': {
+    one: 'Up to {count} pack and {size, size} are kept, older ones are removed automatically. {used, size} in use.',
+    other: 'Up to {count} packs and {size, size} are kept, older ones are removed automatically. {used, size} in use.',
+  },
+  'history.parts': { one: '{count} part', other: '{count} parts' },
+  'history.clear': 'Clear history',
+
+  'manifest.title': { one: 'Packing manifest: {count} entry', other: 'Packing manifest: {count} entries' },
+  'manifest.path': 'Path',
+  'manifest.reason': 'Reason',
+  'manifest.size': 'Size',
+  'manifest.tokens': 'Tokens',
+  'manifest.filter': 'Filter by path',
+  'manifest.allReasons': 'All reasons',
+  'manifest.limited': 'Showing {shown} of {count}. Refine the filter to see the rest.',
+  'manifest.reason.included': 'Included',
+  'manifest.reason.gitignored': '.gitignore',
+  'manifest.reason.excluded-dir': 'Excluded folder',
+  'manifest.reason.excluded-file': 'Excluded file',
+  'manifest.reason.not-included': 'Not in include',
+  'manifest.reason.binary': 'Binary extension',
+  'manifest.reason.not-text': 'Not text',
+  'manifest.reason.generated': 'Generated or minified',
+  'manifest.reason.deselected': 'Deselected',
+  'manifest.reason.secret': 'Excluded for a secret',
+  'manifest.reason.encrypted': 'Encrypted',
+  'manifest.reason.symlink': 'Symbolic link',
+  'manifest.reason.unsafe-path': 'Unsafe path',
+  'manifest.reason.duplicate': 'Duplicate path',
+  'manifest.reason.too-large': 'Too large',
+  'manifest.reason.unsupported': 'Unsupported compression',
+
+  'viewer.search': 'Search the pack',
+  'viewer.copyAll': 'Copy all',
+  'viewer.copyAllUnavailable': 'Not available for packs split into parts or saved to disk',
+  'viewer.copySelected': 'Copy selected ({count} · {tokens})',
+  'viewer.matches': 'Matches: {count}',
+  'viewer.fileInfo': { one: '{count} line · {tokens}', other: '{count} lines · {tokens}' },
+  'viewer.copyFile': 'Copy file',
+  'viewer.showMore': { one: 'Show {count} more line', other: 'Show {count} more lines' },
+  'viewer.selectFile': 'Select a file on the left',
+  'viewer.diffEntry': 'diff',
+  'viewer.fullEntry': 'full file',
+
+  'cli.help': `Usage: repopacker <archive or folder> [options]
+
+Options:
+  -o, --output <file>        write the result to a file (stdout by default)
+  -f, --format <format>      {formats} (markdown by default)
+  -i, --include <pattern>    add an include pattern (.gitignore syntax), can be repeated
+  -e, --exclude <pattern>    add an exclude pattern for files and folders, can be repeated
+      --no-default-filters   do not use the built-in include/exclude lists
+      --no-detect-text       pack only files matched by include
+  -c, --compression <level>  {levels} (full by default)
+  -m, --model <model>        {models} ({defaultModel} by default)
+      --max-tokens <number>  fail when the pack is over this budget
+      --max-file-kb <number> size limit for a single file, 0 for none ({maxFileKb} by default)
+      --max-file-lines <n>   line limit for a single file, 0 for none ({maxFileLines} by default)
+      --truncate <mode>      {actions} for files over the limit ({defaultAction} by default)
+      --keep-lines <number>  lines to keep at the beginning and at the end ({keepLines} by default)
+      --include-generated    do not skip minified and generated files
+      --no-content-handlers  pack notebooks, tables, data files and SVG as they are
+      --notebook-outputs <m> {outputModes} for notebook cell outputs ({defaultOutputs} by default)
+      --output-lines <n>     output lines to keep per notebook cell ({outputLines} by default)
+      --table-rows <number>  CSV/TSV rows to keep after the header ({tableRows} by default)
+      --data-max-kb <number> summarize larger JSON/YAML files, 0 for never ({dataMaxKb} by default)
+      --svg <mode>           {svgModes} for SVG images ({defaultSvg} by default)
+      --no-dedup             print every copy of identical files in full
+      --dedup-whitespace     also treat files that differ only in whitespace as copies
+      --keep-secrets         do not redact detected secrets
+  -t, --template <template>  {templates}: instructions before and after the pack
+      --preamble-file <file> text before the pack (variables {{repoName}}, {{fileCount}}, {{tokenCount}}, {{tree}}, {{date}})
+      --postamble-file <f.>  text after the pack
+      --no-overview          do not add the project overview (languages, folders, manifests)
+      --report               append the packing report to the pack
+      --manifest <file>      write the manifest of all files (.csv or JSON)
+  -q, --quiet                do not print the summary to stderr
+  -h, --help                 show this help
+
+Messages follow LC_ALL / LANG (en, ru).`,
+  'cli.helpHint': 'See: repopacker --help',
+  'cli.integerRequired': '{flag} must be an integer of at least {min}.',
+  'cli.positiveRequired': '{flag} must be a positive integer.',
+  'cli.oneInput': 'Specify one archive or folder.',
+  'cli.unknownFormat': 'Unknown format: {value}',
+  'cli.unknownCompression': 'Unknown compression level: {value}',
+  'cli.unknownModel': 'Unknown model: {value}',
+  'cli.unknownAction': 'Unknown mode: {value}',
+  'cli.unknownNotebookOutputs': 'Unknown notebook output mode: {value} (expected {modes})',
+  'cli.unknownSvgMode': 'Unknown SVG mode: {value} (expected {modes})',
+  'cli.unknownTemplate': 'Unknown template: {value}',
+  'cli.overBudget': 'the pack takes {count} tokens, the budget is {budget}',
+  'cli.tokens': { one: '{count} token', other: '{count} tokens' },
+  'cli.truncated': 'truncated: {count}',
+  'cli.generated': 'generated skipped: {count}',
+  'cli.duplicates': 'duplicates: {count} ({tokens} tokens saved)',
+  'cli.secretsRedacted': 'secrets redacted: {count}',
+  'cli.secretsKept': 'secrets kept: {count}',
+} satisfies Record<string, MessageText>;
@@ -0,0 +1,369 @@
+import type { Catalog } from '../utils/i18n';
+
+/**
+ * Russian messages. Plural entries need `one`, `few` and `many`:
+ * 1 файл, 2 файла, 5 файлов; `other` covers fractions.
+ */
+export const ru: Catalog = {
+  'unit.kb': 'КБ',
+  'unit.mb': 'МБ',
+  'unit.gb': 'ГБ',
+
+  'common.tokens': '{count} tok',
+  'common.files': { one: '{count} файл', few: '{count} файла', many: '{count} файлов', other: '{count} файла' },
+  'common.delete': 'Удалить',
+  'common.cancel': 'Отменить',
+  'common.copy': 'Копировать',
+  'common.download': 'Скачать',
+  'common.copyFailed': 'Не удалось скопировать в буфер обмена.',
+
+  'language.label': 'Язык',
+
+  'app.subtitle': 'Превратите любой GitHub репозиторий (ZIP или TAR.GZ) или локальную папку в единый контекстный файл для LLM.',
+  'app.mode.single': 'Один проект',
+  'app.mode.compare': 'Сравнить две версии',
+  'app.compare.before': 'До изменений',
+  'app.compare.after': 'После изменений',
+  'app.compare.change': 'Изменить',
+  'app.compare.run': 'Сравнить',
+  'app.sourceNote': 'Поддерживает архивы .zip, .tar, .tar.gz и .tgz (макс. {limit} МБ) и папки. Обработка выполняется локально.',
+  'app.selectFiles': 'Выберите файлы',
+  'app.selectionSummary': {
+    one: 'Выбрано {selected} из {count} файла · {size}',
+    few: 'Выбрано {selected} из {count} файлов · {size}',
+    many: 'Выбрано {selected} из {count} файлов · {size}',
+    other: 'Выбрано {selected} из {count} файла · {size}',
+  },
+  'app.saveToDisk': 'Записывать результат сразу в файл на диске (для очень больших проектов)',
+  'app.includeOverview': 'Начать с обзора проекта: языки, папки, крупные файлы, манифесты',
+  'app.dedup': 'Печатать одинаковые файлы один раз, следующие копии — ссылкой на первую',
+  'app.dedupWhitespace': 'Считать копиями и файлы, которые отличаются только пробелами',
+  'app.appendReport': 'Добавить отчёт об упаковке в конец',
+  'app.archiveIssues': 'Записи архива пропущены или переименованы: {count}',
+  'app.secretsFound': 'Найдено возможных секретов: {count}. Перед сборкой их нужно проверить.',
+  'app.reviewSecrets': 'Проверить секреты',
+  'app.build': 'Собрать {format}',
+  'app.secretsTitle': 'Проверка секретов',
+  'app.secretsDescription': 'Эти фрагменты похожи на ключи или пароли. Выберите, что с ними сделать перед сборкой.',
+  'app.backToSelection': 'Назад к выбору файлов',
+  'app.foundFiles': {
+    one: 'Найден {count} файл ({size})',
+    few: 'Найдено {count} файла ({size})',
+    many: 'Найдено {count} файлов ({size})',
+    other: 'Найдено {count} файла ({size})',
+  },
+  'app.tryAgain': 'Попробовать снова',
+  'app.completed': 'Архив обработан!',
+  'app.savedTo': 'Результат сохранён в {name}.',
+  'app.fileReady': 'Файл {name} готов.',
+  'app.textSize': '{size} текста',
+  'app.tokensSaved': '−{count} tok сжатием',
+  'app.truncatedFiles': 'обрезано: {count}',
+  'app.generatedFiles': 'сгенерированных пропущено: {count}',
+  'app.duplicates': 'дубликатов: {count} (−{size}, −{tokens} tok)',
+  'app.skippedBinaries': 'Пропущено бинарных файлов: {count}',
+  'app.downloadParts': 'Скачать все части ({count}) в ZIP',
+  'app.download': 'Скачать {format}',
+  'app.processAnother': 'Обработать другой проект',
+
+  'progress.readingFile': 'Чтение файла...',
+  'progress.readingBefore': 'Чтение исходной версии...',
+  'progress.before': 'До: {message}',
+  'progress.after': 'После: {message}',
+  'progress.readingZip': 'Чтение ZIP архива...',
+  'progress.extractingTar': 'Распаковка TAR архива...',
+  'progress.readingFolder': 'Чтение папки...',
+  'progress.emptyArchive': 'Архив пустой',
+  'progress.loadingTokenizer': 'Загрузка токенизатора...',
+  'progress.readingGitignore': 'Чтение .gitignore...',
+  'progress.analyzingFiles': 'Анализ файлов...',
+  'progress.processingFile': 'Обработка: {name}',
+  'progress.selectFiles': 'Выберите файлы',
+  'progress.reviewingSecrets': 'Проверка секретов',
+  'progress.applyingSecrets': 'Применение решений по секретам...',
+  'progress.buildingChanges': 'Построение изменений...',
+  'progress.compressing': 'Сжатие содержимого...',
+  'progress.buildingPack': 'Сборка итогового {format}...',
+  'progress.done': 'Готово!',
+
+  'error.unknown': 'Неизвестная ошибка',
+  'error.unexpected': '{message}',
+  'error.validation': 'Ошибка валидации',
+  'error.processing': 'Произошла ошибка при обработке.',
+  'error.comparing': 'Произошла ошибка при сравнении.',
+  'error.worker': 'Ошибка фонового обработчика',
+  'error.sourceTooLarge': 'Файл слишком большой ({name}). Максимальный размер: {max, size}',
+  'error.unsupportedArchive': 'Неподдерживаемый формат. Поддерживаются архивы .zip, .tar, .tar.gz и .tgz.',
+  'error.zipOpen': 'Не удалось открыть ZIP файл. Возможно он поврежден.',
+  'error.zipEntry': 'Не удалось распаковать {path}. Возможно архив поврежден.',
+  'error.zipLocalHeader': 'Поврежден локальный заголовок файла {path}. Возможно архив поврежден.',
+  'error.tarOpen': 'Не удалось открыть TAR архив. Возможно он поврежден.',
+  'error.archiveEntries': 'В архиве {count} записей, допустимо не больше {max}.',
+  'error.archiveSize': 'Распакованный размер архива {size, size} больше допустимых {max, size}.',
+  'error.archiveRatio': 'Запись {path} сжата в {ratio} раз (допустимо {max}). Архив похож на zip-бомбу.',
+  'error.archiveTotalRatio': 'Записи архива ({count}) распаковываются из {compressed, size} в {size, size}, в {ratio} раз (допустимо {max}). Архив похож на zip-бомбу.',
+  'error.entrySize': '{path}: распакованные данные превышают {max, size}.',
+  'error.partTooSmall': 'Лимит части меньше заголовка со структурой проекта. Увеличьте лимит или используйте компактный индекс.',
+  'error.profilesNotJson': 'Файл профилей не является JSON.',
+  'error.profilesMissing': 'В файле нет списка профилей.',
+  'error.profilesTooNew': 'Файл профилей создан более новой версией приложения.',
+  'error.profileCorrupted': 'Профиль №{number} повреждён.',
+  'error.profileInvalidSetting': 'В профиле №{number} недопустимое значение {setting}.',
+  'error.storageUnavailable': 'Хранилище браузера недоступно.',
+
+  'archiveIssue.encrypted': 'зашифрован',
+  'archiveIssue.symlink': 'символическая ссылка',
+  'archiveIssue.unsafe-path': 'небезопасный путь',
+  'archiveIssue.duplicate': 'повторяющийся путь',
+  'archiveIssue.too-large': 'слишком большой',
+  'archiveIssue.unsupported': 'неподдерживаемое сжатие',
+
+  'uploader.unsupported': 'Поддерживаются архивы .zip, .tar, .tar.gz и .tgz.',
+  'uploader.folderFailed': 'Не удалось прочитать папку.',
+  'uploader.chooseSource': 'Пожалуйста, выберите архив (.zip, .tar, .tar.gz, .tgz) или папку.',
+  'uploader.prompt': '{click} или перетащите файл или папку',
+  'uploader.click': 'Кликните',
+  'uploader.hint': 'ZIP или TAR.GZ архив (GitHub, GitLab, CI) или папка проекта',
+  'uploader.pickFolder': 'Выбрать папку',
+
+  'tokenBudget.model': 'Модель / контекстное окно',
+  'tokenBudget.approximate': '{label}, приблизительно',
+  'tokenBudget.usage': {
+    one: '{used} / {count} токен ({tokenizer})',
+    few: '{used} / {count} токена ({tokenizer})',
+    many: '{used} / {count} токенов ({tokenizer})',
+    other: '{used} / {count} токена ({tokenizer})',
+  },
+  'tokenBudget.over': ' — превышает контекст модели на {count}',
+
+  'format.title': 'Формат вывода',
+  'format.markdown': 'Markdown',
+  'format.xml': 'XML',
+  'format.json': 'JSON',
+  'format.plain': 'Текст',
+
+  'filters.title': 'Настройки фильтров',
+  'filters.hint': 'Один шаблон на строку, синтаксис как в .gitignore (например {examples}).',
+  'filters.include': 'Включать',
+  'filters.exclude': 'Исключать',
+  'filters.detectText': 'Определять текстовые файлы по содержимому (не только по шаблонам «Включать»)',
+  'filters.reset': 'Сбросить по умолчанию',
+
+  'archiveLimits.title': 'Ограничения распаковки',
+  'archiveLimits.hint': 'Защита от zip-бомб: проверяется по оглавлению архива до распаковки. Файлы больше лимита пропускаются, остальные нарушения отменяют обработку.',
+  'archiveLimits.maxTotalSize': 'Всего после распаковки',
+  'archiveLimits.maxEntrySize': 'Один файл',
+  'archiveLimits.maxCompressionRatio': 'Степень сжатия (файла и архива)',
+  'archiveLimits.maxEntries': 'Записей в архиве',
+
+  'fileLimits.title': 'Ограничения на файл',
+  'fileLimits.hint': 'Один большой файл (бандл, снапшот, дамп данных) не займёт весь пакет. 0 — без ограничения.',
+  'fileLimits.maxBytes': 'Размер файла',
+  'fileLimits.maxLines': 'Строк в файле',
+  'fileLimits.keepLines': 'Оставлять строк',
+  'fileLimits.action': 'Если больше',
+  'fileLimits.action.skip': 'Пропустить файл',
+  'fileLimits.action.head': 'Оставить начало',
+  'fileLimits.action.head-tail': 'Оставить начало и конец',
+  'fileLimits.excludeGenerated': 'Пропускать минифицированные и сгенерированные файлы (.min.js, .map, @generated, DO NOT EDIT)',
+
+  'contentHandlers.title': 'Ноутбуки, таблицы и файлы данных',
+  'contentHandlers.hint': 'Jupyter-ноутбуки превращаются в ячейки кода и markdown, в CSV/TSV остаются заголовок и первые строки, большие JSON/YAML заменяются описанием структуры с фрагментом. В заголовке каждого файла указано, что с ним сделано.',
+  'contentHandlers.enabled': 'Преобразовывать ноутбуки, таблицы, файлы данных и SVG',
+  'contentHandlers.notebookOutputs': 'Вывод ячеек',
+  'contentHandlers.notebookOutputs.strip': 'Удалять',
+  'contentHandlers.notebookOutputs.truncate': 'Оставлять начало',
+  'contentHandlers.outputLines': 'Строк вывода на ячейку',
+  'contentHandlers.tableRows': 'Строк таблицы',
+  'contentHandlers.dataMaxBytes': 'Сокращать JSON/YAML больше',
+  'contentHandlers.svg': 'Изображения SVG',
+  'contentHandlers.svg.include': 'Включать как есть',
+  'contentHandlers.svg.summarize': 'Описывать кратко',
+
+  'compression.title': 'Сжатие кода',
+  'compression.level.full': 'Полностью',
+  'compression.level.strip': 'Без комментариев',
+  'compression.level.outline': 'Только сигнатуры',
+  'compression.rules': 'Уровень для отдельных файлов',
+  'compression.rulesHint': 'Одно правило на строку: шаблон .gitignore и уровень {full}, {strip} или {outline} (например {example}). Срабатывает последнее подходящее правило.',
+
+  'split.enable': 'Разбить на части',
+  'split.atMost': 'Не более',
+  'split.unit.tokens': 'токенов',
+  'split.unit.bytes': 'байт',
+  'split.perPart': 'на часть, в каждой',
+  'split.header.tree': 'полная структура',
+  'split.header.index': 'список файлов части',
+
+  'dependencies.enable': 'Только зависимости точек входа',
+  'dependencies.hint': 'Импорты TS/JS (с учётом paths из tsconfig), Python и Go. Выбор файлов ниже заменяется достижимыми файлами.',
+  'dependencies.entryPlaceholder': 'Путь к файлу точки входа',
+  'dependencies.add': 'Добавить',
+  'dependencies.depth': 'Глубина',
+  'dependencies.depthUnit': 'уровней импорта',
+  'dependencies.reachable': 'Достижимо файлов: {count}',
+
+  'diff.changes': 'Изменения:',
+  'diff.added': '+{count} добавлено',
+  'diff.modified': '~{count} изменено',
+  'diff.removed': '−{count} удалено',
+  'diff.context': 'Строк контекста в diff',
+  'diff.includeNewVersion': 'Добавлять новую версию изменённых файлов целиком',
+
+  'secrets.action.redact': 'Скрыть',
+  'secrets.action.exclude': 'Исключить файл',
+  'secrets.action.keep': 'Оставить',
+  'secrets.applyToAll': '{action} все',
+  'secrets.line': 'стр. {line}',
+
+  'prompt.title': 'Шаблон промпта',
+  'prompt.none': 'Без шаблона',
+  'prompt.builtIn': 'Встроенные',
+  'prompt.custom': 'Мои шаблоны',
+  'prompt.name': 'Название',
+  'prompt.preamble': 'Перед пакетом',
+  'prompt.postamble': 'После пакета',
+  'prompt.variables': 'Переменные:',
+  'prompt.new': 'Новый',
+  'prompt.newName': 'Новый шаблон',
+  'prompt.copyName': '{name} (копия)',
+  'prompt.save': 'Сохранить',
+  'prompt.saveCopy': 'Сохранить копию',
+  'prompt.template.code-review': 'Код-ревью',
+  'prompt.template.bug-hunt': 'Поиск ошибок',
+  'prompt.template.documentation': 'Документация',
+  'prompt.variable.repoName': 'Название проекта',
+  'prompt.variable.fileCount': 'Количество файлов в пакете',
+  'prompt.variable.tokenCount': 'Токены содержимого файлов (без шаблона и заголовков)',
+  'prompt.variable.tree': 'Структура проекта',
+  'prompt.variable.date': 'Дата сборки (ГГГГ-ММ-ДД)',
+
+  'profiles.title': 'Профили настроек',
+  'profiles.titleSelected': 'Профили настроек: {name}',
+  'profiles.hint': 'Фильтры, ограничения, модель, формат, сжатие, разбиение и шаблон промпта. Профили хранятся в браузере; экспортируйте их в JSON, чтобы поделиться с командой.',
+  'profiles.choose': 'Выберите профиль',
+  'profiles.empty': 'Сохранённых профилей нет',
+  'profiles.namePlaceholder': 'Название, например «только фронтенд»',
+  'profiles.update': 'Обновить',
+  'profiles.saveCurrent': 'Сохранить текущие',
+  'profiles.import': 'Импорт JSON',
+  'profiles.exportOne': 'Экспорт профиля',
+  'profiles.exportAll': 'Экспорт всех',
+
+  'history.title': 'Недавние пакеты: {count}',
+  'history.hint': {
+    one: 'Хранится до {count} пакета и {size, size}, старые удаляются автоматически. Занято {used, size}.',
+    few: 'Хранится до {count} пакетов и {size, size}, старые удаляются автоматически. Занято {used, size}.',
+    many: 'Хранится до {count} пакетов и {size, size}, старые удаляются автоматически. Занято {used, size}.',
+    other: 'Хранится до {count} пакета и {size, size}, старые удаляются автоматически. Занято {used, size}.',
+  },
+  'history.parts': { one: '{count} часть', few: '{count} части', many: '{count} частей', other: '{count} части' },
+  'history.clear': 'Очистить историю',
+
+  'manifest.title': {
+    one: 'Манифест упаковки: {count} запись',
+    few: 'Манифест упаковки: {count} записи',
+    many: 'Манифест упаковки: {count} записей',
+    other: 'Манифест упаковки: {count} записи',
+  },
+  'manifest.path': 'Путь',
+  'manifest.reason': 'Причина',
+  'manifest.size': 'Размер',
+  'manifest.tokens': 'Токены',
+  'manifest.filter': 'Фильтр по пути',
+  'manifest.allReasons': 'Все причины',
+  'manifest.limited': 'Показано {shown} из {count}. Уточните фильтр, чтобы увидеть остальные.',
+  'manifest.reason.included': 'Включён',
+  'manifest.reason.gitignored': '.gitignore',
+  'manifest.reason.excluded-dir': 'Исключённая папка',
+  'manifest.reason.excluded-file': 'Исключённый файл',
+  'manifest.reason.not-included': 'Не входит в include',
+  'manifest.reason.binary': 'Бинарное расширение',
+  'manifest.reason.not-text': 'Не текст',
+  'manifest.reason.generated': 'Сгенерированный или минифицированный',
+  'manifest.reason.deselected': 'Снят выбор',
+  'manifest.reason.secret': 'Исключён из-за секрета',
+  'manifest.reason.encrypted': 'Зашифрован',
+  'manifest.reason.symlink': 'Символическая ссылка',
+  'manifest.reason.unsafe-path': 'Небезопасный путь',
+  'manifest.reason.duplicate': 'Повторяющийся путь',
+  'manifest.reason.too-large': 'Слишком большой',
+  'manifest.reason.unsupported': 'Неподдерживаемое сжатие',
+
+  'viewer.search': 'Поиск по пакету',
+  'viewer.copyAll': 'Копировать всё',
+  'viewer.copyAllUnavailable': 'Недоступно для пакетов из нескольких частей и сохранённых на диск',
+  'viewer.copySelected': 'Копировать выбранные ({count} · {tokens})',
+  'viewer.matches': 'Совпадений: {count}',
+  'viewer.fileInfo': {
+    one: '{count} строка · {tokens}',
+    few: '{count} строки · {tokens}',
+    many: '{count} строк · {tokens}',
+    other: '{count} строки · {tokens}',
+  },
+  'viewer.copyFile': 'Копировать файл',
+  'viewer.showMore': {
+    one: 'Показать ещё {count} строку',
+    few: 'Показать ещё {count} строки',
+    many: 'Показать ещё {count} строк',
+    other: 'Показать ещё {count} строки',
+  },
+  'viewer.selectFile': 'Выберите файл слева',
+  'viewer.diffEntry': 'изменения',
+  'viewer.fullEntry': 'файл целиком',
+
+  'cli.help': `Использование: repopacker <архив или папка> [параметры]
+
+Параметры:
+  -o, --output <файл>        записать результат в файл (по умолчанию stdout)
+  -f, --format <формат>      {formats} (по умолчанию markdown)
+  -i, --include <шаблон>     добавить шаблон включаемых файлов (.gitignore), можно повторять
+  -e, --exclude <шаблон>     добавить шаблон исключаемых файлов и папок, можно повторять
+      --no-default-filters   не использовать встроенные списки include/exclude
+      --no-detect-text       упаковывать только файлы из include
+  -c, --compression <ур.>    {levels} (по умолчанию full)
+  -m, --model <модель>       {models} (по умолчанию {defaultModel})
+      --max-tokens <число>   завершиться с ошибкой, если пакет больше бюджета
+      --max-file-kb <число>  лимит размера одного файла, 0 — без лимита (по умолчанию {maxFileKb})
+      --max-file-lines <ч.>  лимит строк одного файла, 0 — без лимита (по умолчанию {maxFileLines})
+      --truncate <режим>     {actions} для файлов сверх лимита (по умолчанию {defaultAction})
+      --keep-lines <число>   сколько строк оставлять в начале и в конце (по умолчанию {keepLines})
+      --include-generated    не пропускать минифицированные и сгенерированные файлы
+      --no-content-handlers  упаковывать ноутбуки, таблицы, файлы данных и SVG как есть
+      --notebook-outputs <р> {outputModes} для вывода ячеек ноутбука (по умолчанию {defaultOutputs})
+      --output-lines <ч.>    сколько строк вывода оставлять на ячейку (по умолчанию {outputLines})
+      --table-rows <число>   сколько строк CSV/TSV оставлять после заголовка (по умолчанию {tableRows})
+      --data-max-kb <число>  сокращать JSON/YAML больше этого размера, 0 — никогда (по умолчанию {dataMaxKb})
+      --svg <режим>          {svgModes} для изображений SVG (по умолчанию {defaultSvg})
+      --no-dedup             печатать каждую копию одинаковых файлов целиком
+      --dedup-whitespace     считать копиями и файлы, которые отличаются только пробелами
+      --keep-secrets         не скрывать найденные секреты
+  -t, --template <шаблон>    {templates}: инструкции до и после пакета
+      --preamble-file <файл> текст перед пакетом (переменные {{repoName}}, {{fileCount}}, {{tokenCount}}, {{tree}}, {{date}})
+      --postamble-file <ф.>  текст после пакета
+      --no-overview          не добавлять обзор проекта (языки, папки, манифесты)
+      --report               добавить отчёт об упаковке в конец пакета
+      --manifest <файл>      записать манифест всех файлов (.csv или JSON)
+  -q, --quiet                не выводить сводку в stderr
+  -h, --help                 показать эту справку
+
+Язык сообщений берётся из LC_ALL / LANG (en, ru).`,
+  'cli.helpHint': 'Справка: repopacker --help',
+  'cli.integerRequired': '{flag} должен быть целым числом не меньше {min}.',
+  'cli.positiveRequired': '{flag} должен быть положительным целым числом.',
+  'cli.oneInput': 'Укажите один архив или папку.',
+  'cli.unknownFormat': 'Неизвестный формат: {value}',
+  'cli.unknownCompression': 'Неизвестный уровень сжатия: {value}',
+  'cli.unknownModel': 'Неизвестная модель: {value}',
+  'cli.unknownAction': 'Неизвестный режим: {value}',
+  'cli.unknownNotebookOutputs': 'Неизвестный режим вывода ячеек: {value} (допустимо: {modes})',
+  'cli.unknownSvgMode': 'Неизвестный режим SVG: {value} (допустимо: {modes})',
+  'cli.unknownTemplate': 'Неизвестный шаблон: {value}',
+  'cli.overBudget': 'пакет занимает {count} токенов, бюджет {budget}',
+  'cli.tokens': { one: '{count} токен', few: '{count} токена', many: '{count} токенов', other: '{count} токена' },
+  'cli.truncated': 'обрезано: {count}',
+  'cli.generated': 'сгенерированных пропущено: {count}',
+  'cli.duplicates': 'дубликатов: {count} (сэкономлено токенов: {tokens})',
+  'cli.secretsRedacted': 'секретов скрыто: {count}',
+  'cli.secretsKept': 'секретов оставлено: {count}',
+};
@@ -0,0 +1,253 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { CompressionLevel, ContentHandlerSettings, FileLimitAction, FileLimitSettings, FilterSettings, NotebookOutputMode, OutputFormatId, SvgMode } from '../types';
+import { COMPRESSION_LEVELS, DEFAULT_COMPRESSION_SETTINGS } from '../utils/compression';
+import { DEFAULT_FILTER_SETTINGS } from '../utils/filters';
+import { OUTPUT_FORMATS } from '../utils/outputFormats';
+import { DEFAULT_MODEL_ID, MODEL_PRESETS } from '../utils/tokenizer';
+import { manifestToCsv, manifestToJson } from '../utils/manifest';
+import { DEFAULT_FILE_LIMITS, FILE_LIMIT_ACTIONS } from '../utils/fileLimits';
+import { DEFAULT_CONTENT_HANDLERS, NOTEBOOK_OUTPUT_MODES, SVG_MODES } from '../utils/contentHandlers';
+import { DEFAULT_DEDUP_SETTINGS } from '../utils/dedup';
+import { BUILT_IN_PROMPT_TEMPLATES } from '../utils/promptTemplates';
+import { detectLocale, LocalizedError, MessageKey, MessageParams, translate } from '../utils/i18n';
+import { packRepository } from './index';
+
+/**
+ * `repopacker` command: packs an archive or folder with the web app's
+ * defaults and writes the result to stdout or a file.
+ * Exit codes: 0 on success, 1 on errors or an exceeded budget, 2 on bad usage.
+ */
+
+// Messages follow the usual locale variables; anything but Russian gets English
+const locale = detectLocale([process.env.LC_ALL, process.env.LC_MESSAGES, process.env.LANG]);
+const t = (key: MessageKey, params?: MessageParams) => translate(locale, key, params);
+
+const help = () => t('cli.help', {
+  formats: OUTPUT_FORMATS.map(f => f.id).join(' | '),
+  levels: COMPRESSION_LEVELS.join(' | '),
+  models: MODEL_PRESETS.map(m => m.id).join(' | '),
+  defaultModel: DEFAULT_MODEL_ID,
+  maxFileKb: String(DEFAULT_FILE_LIMITS.maxBytes / 1024),
+  maxFileLines: String(DEFAULT_FILE_LIMITS.maxLines),
+  actions: FILE_LIMIT_ACTIONS.join(' | '),
+  defaultAction: DEFAULT_FILE_LIMITS.action,
+  keepLines: String(DEFAULT_FILE_LIMITS.keepLines),
+  outputModes: NOTEBOOK_OUTPUT_MODES.join(' | '),
+  defaultOutputs: DEFAULT_CONTENT_HANDLERS.notebookOutputs,
+  outputLines: String(DEFAULT_CONTENT_HANDLERS.outputLines),
+  tableRows: String(DEFAULT_CONTENT_HANDLERS.tableRows),
+  dataMaxKb: String(DEFAULT_CONTENT_HANDLERS.dataMaxBytes / 1024),
+  svgModes: SVG_MODES.join(' | '),
+  defaultSvg: DEFAULT_CONTENT_HANDLERS.svg,
+  templates: BUILT_IN_PROMPT_TEMPLATES.map(template => template.id).join(' | '),
+});
+
+class UsageError extends LocalizedError {}
+
+const parseCount = (value: string | undefined, fallback: number, flag: string, min: number): number => {
+  if (value === undefined) return fallback;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < min) throw new UsageError('cli.integerRequired', { flag, min });
+  return count;
+};
+
+const parseCli = (argv: string[]) => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        output: { type: 'string', short: 'o' },
+        format: { type: 'string', short: 'f' },
+        include: { type: 'string', short: 'i', multiple: true },
+        exclude: { type: 'string', short: 'e', multiple: true },
+        'no-default-filters': { type: 'boolean' },
+        'no-detect-text': { type: 'boolean' },
+        compression: { type: 'string', short: 'c' },
+        model: { type: 'string', short: 'm' },
+        'max-tokens': { type: 'string' },
+        'max-file-kb': { type: 'string' },
+        'max-file-lines': { type: 'string' },
+        truncate: { type: 'string' },
+        'keep-lines': { type: 'string' },
+        'include-generated': { type: 'boolean' },
+        'no-content-handlers': { type: 'boolean' },
+        'notebook-outputs': { type: 'string' },
+        'output-lines': { type: 'string' },
+        'table-rows': { type: 'string' },
+        'data-max-kb': { type: 'string' },
+        svg: { type: 'string' },
+        'no-dedup': { type: 'boolean' },
+        'dedup-whitespace': { type: 'boolean' },
+        'keep-secrets': { type: 'boolean' },
+        report: { type: 'boolean' },
+        'no-overview': { type: 'boolean' },
+        template: { type: 'string', short: 't' },
+        'preamble-file': { type: 'string' },
+        'postamble-file': { type: 'string' },
+        manifest: { type: 'string' },
+        quiet: { type: 'boolean', short: 'q' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    throw new UsageError('error.unexpected', { message: error instanceof Error ? error.message : String(error) });
+  }
+  const { values, positionals } = parsed;
+
+  if (values.help) return null;
+  if (positionals.length !== 1) throw new UsageError('cli.oneInput');
+
+  const format = (values.format ?? 'markdown') as OutputFormatId;
+  if (!OUTPUT_FORMATS.some(f => f.id === format)) throw new UsageError('cli.unknownFormat', { value: format });
+
+  const level = (values.compression ?? DEFAULT_COMPRESSION_SETTINGS.level) as CompressionLevel;
+  if (!COMPRESSION_LEVELS.includes(level)) throw new UsageError('cli.unknownCompression', { value: level });
+
+  const model = MODEL_PRESETS.find(m => m.id === (values.model ?? DEFAULT_MODEL_ID));
+  if (!model) throw new UsageError('cli.unknownModel', { value: String(values.model) });
+
+  const maxTokens = values['max-tokens'] === undefined ? null : Number(values['max-tokens']);
+  if (maxTokens !== null && !(Number.isInteger(maxTokens) && maxTokens > 0)) {
+    throw new UsageError('cli.positiveRequired', { flag: '--max-tokens' });
+  }
+
+  const action = (values.truncate ?? DEFAULT_FILE_LIMITS.action) as FileLimitAction;
+  if (!FILE_LIMIT_ACTIONS.includes(action)) throw new UsageError('cli.unknownAction', { value: action });
+
+  const fileLimits: FileLimitSettings = {
+    maxBytes: parseCount(values['max-file-kb'], DEFAULT_FILE_LIMITS.maxBytes / 1024, '--max-file-kb', 0) * 1024,
+    maxLines: parseCount(values['max-file-lines'], DEFAULT_FILE_LIMITS.maxLines, '--max-file-lines', 0),
+    action,
+    keepLines: parseCount(values['keep-lines'], DEFAULT_FILE_LIMITS.keepLines, '--keep-lines', 1),
+    excludeGenerated: !values['include-generated'],
+  };
+
+  const notebookOutputs = (values['notebook-outputs'] ?? DEFAULT_CONTENT_HANDLERS.notebookOutputs) as NotebookOutputMode;
+  if (!NOTEBOOK_OUTPUT_MODES.includes(notebookOutputs)) {
+    throw new UsageError('cli.unknownNotebookOutputs', { value: notebookOutputs, modes: NOTEBOOK_OUTPUT_MODES.join(', ') });
+  }
+  const svg = (values.svg ?? DEFAULT_CONTENT_HANDLERS.svg) as SvgMode;
+  if (!SVG_MODES.includes(svg)) throw new UsageError('cli.unknownSvgMode', { value: svg, modes: SVG_MODES.join(', ') });
+
+  const contentHandlers: ContentHandlerSettings = {
+    enabled: !values['no-content-handlers'],
+    notebookOutputs,
+    outputLines: parseCount(values['output-lines'], DEFAULT_CONTENT_HANDLERS.outputLines, '--output-lines', 1),
+    tableRows: parseCount(values['table-rows'], DEFAULT_CONTENT_HANDLERS.tableRows, '--table-rows', 1),
+    dataMaxBytes: parseCount(values['data-max-kb'], DEFAULT_CONTENT_HANDLERS.dataMaxBytes / 1024, '--data-max-kb', 0) * 1024,
+    svg,
+  };
+
+  const template = values.template === undefined ? undefined : BUILT_IN_PROMPT_TEMPLATES.find(t => t.id === values.template);
+  if (values.template !== undefined && !template) throw new UsageError('cli.unknownTemplate', { value: values.template });
+
+  const defaults = values['no-default-filters'] ? { include: [], exclude: [] } : DEFAULT_FILTER_SETTINGS;
+  const filters: FilterSettings = {
+    include: [...defaults.include, ...(values.include ?? [])],
+    exclude: [...defaults.exclude, ...(values.exclude ?? [])],
+    detectText: !values['no-detect-text'],
+  };
+
+  return {
+    input: positionals[0],
+    output: values.output,
+    format,
+    filters,
+    fileLimits,
+    contentHandlers,
+    dedup: {
+      enabled: !values['no-dedup'],
+      ignoreWhitespace: values['dedup-whitespace'] ?? DEFAULT_DEDUP_SETTINGS.ignoreWhitespace,
+    },
+    compression: { ...DEFAULT_COMPRESSION_SETTINGS, level },
+    tokenizer: model.tokenizer,
+    maxTokens,
+    keepSecrets: values['keep-secrets'] ?? false,
+    report: values.report ?? false,
+    overview: !values['no-overview'],
+    template,
+    preambleFile: values['preamble-file'],
+    postambleFile: values['postamble-file'],
+    manifest: values.manifest,
+    quiet: values.quiet ?? false,
+  };
+};
+
+const run = async (argv: string[]): Promise<number> => {
+  const args = parseCli(argv);
+  if (!args) {
+    process.stdout.write(`${help()}\n`);
+    return 0;
+  }
+
+  // Files override the matching half of the template
+  const hasPrompt = args.template || args.preambleFile || args.postambleFile;
+  const prompt = hasPrompt ? {
+    preamble: args.preambleFile ? await readFile(args.preambleFile, 'utf-8') : args.template?.preamble ?? '',
+    postamble: args.postambleFile ? await readFile(args.postambleFile, 'utf-8') : args.template?.postamble ?? '',
+  } : undefined;
+
+  const result = await packRepository(args.input, {
+    filters: args.filters,
+    fileLimits: args.fileLimits,
+    contentHandlers: args.contentHandlers,
+    format: args.format,
+    compression: args.compression,
+    tokenizer: args.tokenizer,
+    secretAction: args.keepSecrets ? 'keep' : 'redact',
+    appendReport: args.report,
+    overview: args.overview,
+    dedup: args.dedup,
+    prompt,
+  });
+
+  if (args.maxTokens !== null && result.stats.tokenCount > args.maxTokens) {
+    process.stderr.write(`repopacker: ${t('cli.overBudget', { count: result.stats.tokenCount, budget: args.maxTokens })}\n`);
+    return 1;
+  }
+
+  if (args.output && args.output !== '-') {
+    await writeFile(args.output, result.content);
+  } else {
+    process.stdout.write(result.content);
+  }
+
+  if (args.manifest) {
+    const manifest = args.manifest.toLowerCase().endsWith('.csv') ? manifestToCsv(result.manifest) : manifestToJson(result.manifest);
+    await writeFile(args.manifest, manifest);
+  }
+
+  if (!args.quiet) {
+    // Skipped archive entries are worth seeing even when the pack succeeded
+    result.archiveIssues.forEach(issue => {
+      const detail = issue.detail ? ` (${issue.detail})` : '';
+      process.stderr.write(`repopacker: ${issue.path}: ${t(`archiveIssue.${issue.kind}`)}${detail}\n`);
+    });
+    const summary = [
+      t('common.files', { count: result.stats.fileCount }),
+      t('cli.tokens', { count: result.stats.tokenCount }),
+      result.stats.truncatedFiles && t('cli.truncated', { count: result.stats.truncatedFiles }),
+      result.stats.generatedFiles && t('cli.generated', { count: result.stats.generatedFiles }),
+      result.stats.dedup && t('cli.duplicates', { count: result.stats.dedup.files, tokens: result.stats.dedup.tokensSaved }),
+      result.secretCount > 0 && t(args.keepSecrets ? 'cli.secretsKept' : 'cli.secretsRedacted', { count: result.secretCount }),
+    ];
+    process.stderr.write(`repopacker: ${summary.filter(Boolean).join(', ')}\n`);
+  }
+  return 0;
+};
+
+run(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    const message = error instanceof LocalizedError ? t(error.key, error.params) : error?.message || error;
+    process.stderr.write(`repopacker: ${message}\n`);
+    if (error instanceof UsageError) process.stderr.write(`${t('cli.helpHint')}\n`);
+    process.exitCode = error instanceof UsageError ? 2 : 1;
+  }
+);
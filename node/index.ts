@@ -0,0 +1,147 @@
+import {
+  ArchiveIssue,
+  ArchiveLimits,
+  CompressionSettings,
+  ContentHandlerSettings,
+  DedupSettings,
+  ExtractionResult,
+  FileLimitSettings,
+  FilterSettings,
+  ManifestEntry,
+  OutputFormatId,
+  ProcessingStats,
+  SecretAction,
+  SkippedFile,
+  TokenizerId
+} from '../types';
+import { processFileList } from '../utils/zipProcessor';
+import { createPathFilter, DEFAULT_FILTER_SETTINGS } from '../utils/filters';
+import { generatePack } from '../utils/packGenerator';
+import { DEFAULT_COMPRESSION_SETTINGS } from '../utils/compression';
+import { DEFAULT_SPLIT_SETTINGS } from '../utils/splitter';
+import { DEFAULT_MODEL_ID, getModelPreset } from '../utils/tokenizer';
+import { DEFAULT_DEDUP_SETTINGS } from '../utils/dedup';
+import { LocalizedMessage } from '../utils/i18n';
+import { openArchiveBuffer, openPath } from './sources';
+
+/**
+ * Library entry point for Node. Runs the same pipeline as the web app
+ * (extraction, secret redaction, compression, rendering), so the same input
+ * and settings give byte-identical output.
+ */
+
+export { buildFileTree, computeStats, createMarkdownContent, generateTreeString, processFileList, processZipFile } from '../utils/zipProcessor';
+export { generatePack } from '../utils/packGenerator';
+export type { GeneratePackInput, GeneratedPack } from '../utils/packGenerator';
+export { DEFAULT_FILTER_SETTINGS, parsePatternList } from '../utils/filters';
+export { OUTPUT_FORMATS, getOutputFormat } from '../utils/outputFormats';
+export { MODEL_PRESETS, getModelPreset, loadTokenizer } from '../utils/tokenizer';
+export { DEFAULT_ARCHIVE_LIMITS } from '../utils/archiveSafety';
+export { DEFAULT_FILE_LIMITS, applyFileLimits, detectGenerated } from '../utils/fileLimits';
+export { DEFAULT_CONTENT_HANDLERS, applyContentHandler } from '../utils/contentHandlers';
+export { DEFAULT_DEDUP_SETTINGS, deduplicateFiles } from '../utils/dedup';
+export { buildOverview } from '../utils/overview';
+export { BUILT_IN_PROMPT_TEMPLATES, PROMPT_VARIABLES, renderPromptTemplate } from '../utils/promptTemplates';
+export { MANIFEST_REASONS, manifestToCsv, manifestToJson, summarizeManifest } from '../utils/manifest';
+export { detectLocale, formatSize, LocalizedError, translate } from '../utils/i18n';
+export type { Locale, LocalizedMessage, MessageKey, MessageParams } from '../utils/i18n';
+export { openArchiveBuffer, openDirectoryPath, openPath } from './sources';
+export type * from '../types';
+
+// A path to an archive or folder, or the bytes of an archive
+export type PackInput = string | Uint8Array;
+
+export interface NodeProcessOptions {
+  name?: string; // repository name for byte input; paths use the file or folder name
+  filters?: FilterSettings;
+  tokenizer?: TokenizerId; // defaults to the web app's default model
+  scanSecrets?: boolean;
+  limits?: ArchiveLimits; // zip bomb guards for archive input
+  fileLimits?: FileLimitSettings; // per-file size limits and generated file detection
+  contentHandlers?: ContentHandlerSettings; // notebooks, tables, data files and SVG
+  onProgress?: (percent: number, message: LocalizedMessage) => void; // render with `translate`
+  signal?: AbortSignal;
+}
+
+export interface NodePackOptions extends NodeProcessOptions {
+  format?: OutputFormatId;
+  compression?: CompressionSettings;
+  secretAction?: SecretAction; // applied to every finding; 'redact' like the app's default
+  appendReport?: boolean; // end the pack with the packing report
+  prompt?: { preamble: string, postamble: string }; // prompt template texts with {{variables}}
+  overview?: boolean; // defaults to true, like in the app
+  dedup?: DedupSettings; // identical files are printed once by default, like in the app
+}
+
+export interface PackResult {
+  repoName: string;
+  fileName: string; // the name the web app would download the pack as
+  content: string;
+  stats: ProcessingStats;
+  skippedBinaries: SkippedFile[];
+  archiveIssues: ArchiveIssue[]; // archive entries that were skipped or renamed
+  secretCount: number; // findings the secret action was applied to
+  manifest: ManifestEntry[]; // every entry of the input with the reason it was or was not packed
+}
+
+/**
+ * Reads and filters an archive or folder: the Node version of `processSource`.
+ */
+export const processInput = async (input: PackInput, options: NodeProcessOptions = {}): Promise<ExtractionResult> => {
+  const onProgress = options.onProgress ?? (() => {});
+  const filters = options.filters ?? DEFAULT_FILTER_SETTINGS;
+  const pathFilter = createPathFilter(filters);
+
+  const list = typeof input === 'string'
+    ? await openPath(input, { skipDirectory: path => pathFilter.isExcluded(path, true), limits: options.limits })
+    : await openArchiveBuffer(input, options.name, options.limits);
+
+  return processFileList(list, onProgress, options.signal, {
+    filters,
+    tokenizer: options.tokenizer ?? getModelPreset(DEFAULT_MODEL_ID).tokenizer,
+    scanSecrets: options.scanSecrets,
+    fileLimits: options.fileLimits,
+    contentHandlers: options.contentHandlers,
+  });
+};
+
+/**
+ * Packs every file that passes the filters into a single document.
+ */
+export const packRepository = async (input: PackInput, options: NodePackOptions = {}): Promise<PackResult> => {
+  const tokenizer = options.tokenizer ?? getModelPreset(DEFAULT_MODEL_ID).tokenizer;
+  const extracted = await processInput(input, { ...options, tokenizer });
+  const secretAction = options.secretAction ?? 'redact';
+
+  const pack = await generatePack(
+    {
+      repoName: extracted.repoName,
+      files: extracted.files,
+      secretFindings: extracted.secretFindings,
+      secretActions: Object.fromEntries(extracted.secretFindings.map(f => [f.id, secretAction])),
+      format: options.format ?? 'markdown',
+      compression: options.compression ?? DEFAULT_COMPRESSION_SETTINGS,
+      split: DEFAULT_SPLIT_SETTINGS,
+      manifest: extracted.manifest,
+      appendReport: options.appendReport,
+      prompt: options.prompt,
+      overview: options.overview ?? true,
+      dedup: options.dedup ?? DEFAULT_DEDUP_SETTINGS,
+      rootFolder: extracted.rootFolder,
+      tokenizer
+    },
+    options.onProgress ?? (() => {})
+  );
+
+  const [part] = pack.parts;
+  return {
+    repoName: extracted.repoName,
+    fileName: part.fileName,
+    content: part.chunks.join(''),
+    stats: pack.stats,
+    skippedBinaries: extracted.skippedBinaries,
+    archiveIssues: extracted.archiveIssues,
+    secretCount: extracted.secretFindings.length,
+    manifest: pack.manifest ?? extracted.manifest,
+  };
+};
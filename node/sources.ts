@@ -0,0 +1,64 @@
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { basename, join, resolve } from 'node:path';
+import { isGzipData, openTarSource, openZipSource, SourceOptions, VirtualFile, VirtualFileList } from '../utils/fileSources';
+import { ArchiveLimits } from '../types';
+import { isTarArchive } from '../utils/tarReader';
+import { isZipArchive } from '../utils/zipReader';
+import { LocalizedError } from '../utils/i18n';
+
+/**
+ * Node counterparts of the browser source adapters: archives come from a
+ * Buffer or a path on disk, folders are walked with `fs`.
+ */
+
+/**
+ * Opens archive bytes. The format is recognised by content, so `name` only
+ * provides the repository name (an archive file name such as `repo-main.zip` works).
+ */
+export const openArchiveBuffer = (data: Uint8Array, name = 'repository', limits?: ArchiveLimits): Promise<VirtualFileList> => {
+  if (isZipArchive(data)) return openZipSource(data, name, limits);
+  if (isGzipData(data) || isTarArchive(data)) return openTarSource(data, name, limits);
+  return Promise.reject(new LocalizedError('error.unsupportedArchive'));
+};
+
+/**
+ * Walks a folder on disk. Like a folder picked in the browser, paths start
+ * with the folder name; entries are listed in name order so output is stable.
+ * Symbolic links are not followed.
+ */
+export const openDirectoryPath = async (root: string, options: SourceOptions = {}): Promise<VirtualFileList> => {
+  const name = basename(resolve(root));
+  const files: VirtualFile[] = [];
+  const skippedDirectories: string[] = [];
+
+  const walk = async (dir: string, dirPath: string) => {
+    const entries = await readdir(dir, { withFileTypes: true });
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    for (const entry of entries) {
+      const path = `${dirPath}/${entry.name}`;
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (options.skipDirectory?.(path)) {
+          skippedDirectories.push(path);
+          continue;
+        }
+        await walk(fullPath, path);
+      } else if (entry.isFile()) {
+        const { size } = await stat(fullPath);
+        files.push({ path, size, read: async () => new Uint8Array(await readFile(fullPath)) });
+      }
+    }
+  };
+
+  await walk(root, name);
+  return { name, files, skippedDirectories };
+};
+
+/**
+ * Opens an archive file or a folder, depending on what `path` points to.
+ */
+export const openPath = async (path: string, options: SourceOptions = {}): Promise<VirtualFileList> => {
+  const info = await stat(path);
+  if (info.isDirectory()) return openDirectoryPath(path, options);
+  return openArchiveBuffer(new Uint8Array(await readFile(path)), basename(path), options.limits);
+};
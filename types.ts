@@ -1,27 +1,302 @@
+import type { LocalizedMessage } from './utils/i18n';
+
 export interface ProcessedFile {
   path: string;
   content: string;
   extension: string;
+  size: number; // UTF-8 byte length of content
+  tokens: number; // token count of content for the selected tokenizer
+  compression?: CompressionLevel; // set when the content was compressed
+  change?: ChangeStatus; // set in diff packs
+  isDiff?: boolean; // content is a unified diff rather than the file itself
+  truncatedLines?: number; // lines cut by the file limits; 0 when only an overlong line was cut
+  handler?: { id: ContentHandlerId, note: string }; // set when a content handler rewrote the file
+  duplicateOf?: string; // earlier file with the same content; `content` is then only a reference to it
+  nearDuplicate?: boolean; // the two contents differ in whitespace
+}
+
+// Built-in encodings; other ids can be added through registerTokenizer
+export type TokenizerId = 'cl100k_base' | 'o200k_base' | 'heuristic' | (string & {});
+
+export interface FilterSettings {
+  include: string[]; // gitignore-style globs of files to pack
+  exclude: string[]; // gitignore-style globs of files and directories to skip
+  detectText: boolean; // also pack files outside `include` whose content sniffs as text
+}
+
+export interface SkippedFile {
+  path: string;
+  size: number;
+}
+
+// Zip bomb guards, checked from archive metadata before anything is decompressed
+export interface ArchiveLimits {
+  maxTotalSize: number; // bytes, sum of uncompressed entry sizes
+  maxEntrySize: number; // bytes; larger entries are skipped and reported
+  maxCompressionRatio: number; // uncompressed / compressed size of a single entry
+  maxEntries: number;
+}
+
+// Instructions placed around the pack; both texts may use {{variables}}
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  preamble: string;
+  postamble: string;
+  builtIn?: boolean; // presets cannot be changed or deleted
+}
+
+// Files, bytes and tokens of one language or directory in the project overview
+export interface OverviewRow {
+  name: string;
+  files: number;
+  size: number; // bytes
+  tokens: number;
+}
+
+// Summary of a package manifest or Dockerfile found in the project
+export interface KeyFileSummary {
+  path: string;
+  kind: string; // e.g. 'npm', 'Cargo'
+  name?: string; // package or module name
+  sections: { title: string, items: string[] }[]; // scripts, dependencies, base images...
+}
+
+export interface ProjectOverview {
+  languages: OverviewRow[];
+  directories: OverviewRow[]; // top-level directories; files in the root are grouped under '.'
+  largestFiles: { path: string, size: number, tokens: number }[];
+  keyFiles: KeyFileSummary[];
+}
+
+// Everything a settings profile restores
+export interface ProfileSettings {
+  filters: FilterSettings;
+  archiveLimits: ArchiveLimits;
+  fileLimits: FileLimitSettings;
+  contentHandlers: ContentHandlerSettings;
+  modelId: string;
+  format: OutputFormatId;
+  compression: CompressionSettings;
+  split: SplitSettings;
+  appendReport: boolean;
+  overview: boolean;
+  dedup: DedupSettings;
+  promptTemplate: PromptTemplate | null;
+}
+
+export interface SettingsProfile {
+  id: string;
+  name: string; // e.g. "frontend only"
+  updatedAt: number; // ms since epoch
+  settings: ProfileSettings;
+}
+
+// A generated pack kept for re-downloading
+export interface PackHistoryEntry {
+  id: string;
+  repoName: string;
+  fileName: string; // download name: the pack itself or the ZIP of all parts
+  format: OutputFormatId;
+  createdAt: number; // ms since epoch
+  stats: ProcessingStats;
+  partCount: number; // 1 unless the pack was split
+  size: number; // bytes of content
+  content: Blob;
+}
+
+// What to do with a text file over the byte or line limit
+export type FileLimitAction = 'skip' | 'head' | 'head-tail';
+
+export interface FileLimitSettings {
+  maxBytes: number; // 0 disables the check
+  maxLines: number; // 0 disables the check
+  action: FileLimitAction;
+  keepLines: number; // kept at the start, and as many again at the end for 'head-tail'
+  excludeGenerated: boolean; // skip minified and generated files
+}
+
+// Rewrites notebooks, tables, large data files and SVG images into a compact form
+export type ContentHandlerId = 'notebook' | 'table' | 'data' | 'svg';
+
+export type NotebookOutputMode = 'strip' | 'truncate';
+
+export type SvgMode = 'include' | 'summarize';
+
+export interface ContentHandlerSettings {
+  enabled: boolean;
+  notebookOutputs: NotebookOutputMode;
+  outputLines: number; // kept per code cell when outputs are truncated
+  tableRows: number; // CSV/TSV rows kept after the header
+  dataMaxBytes: number; // larger JSON/YAML files become a shape summary and an excerpt; 0 keeps them all
+  svg: SvgMode;
+}
+
+export type ArchiveIssueKind = 'encrypted' | 'symlink' | 'unsafe-path' | 'duplicate' | 'too-large' | 'unsupported';
+
+// An archive entry that was skipped or renamed instead of being extracted as is
+export interface ArchiveIssue {
+  path: string; // as stored in the archive
+  kind: ArchiveIssueKind;
+  detail?: string; // e.g. the sanitized path or the compression method
+  size?: number; // uncompressed, when known
+}
+
+// Why an entry of the source did or did not end up in the pack
+export type ManifestReason =
+  | 'included'
+  | 'gitignored'
+  | 'excluded-dir' // one of its directories matches an exclude pattern
+  | 'excluded-file'
+  | 'not-included' // no include pattern matches and text detection is off
+  | 'binary' // known binary extension
+  | 'not-text' // content sniffed as binary
+  | 'deselected' // unchecked in the file list or not reachable from the entry points
+  | 'secret' // excluded during the secret review
+  | 'generated' // minified or generated code
+  | ArchiveIssueKind;
+
+export interface ManifestEntry {
+  path: string;
+  size: number; // bytes
+  reason: ManifestReason;
+  tokens?: number; // for packed files, as packed
+  detail?: string; // e.g. the matching exclude directory
+}
+
+export interface ManifestSummaryRow {
+  reason: ManifestReason;
+  count: number;
+  size: number;
+}
+
+export interface ProcessOptions {
+  filters?: FilterSettings;
+  tokenizer?: TokenizerId;
+  scanSecrets?: boolean; // defaults to true
+  limits?: ArchiveLimits;
+  fileLimits?: FileLimitSettings; // defaults to DEFAULT_FILE_LIMITS
+  contentHandlers?: ContentHandlerSettings; // defaults to DEFAULT_CONTENT_HANDLERS
+}
+
+// Input to pack; every kind is structured-cloneable so it can be sent to the worker
+export type PackSource =
+  | { kind: 'zip', file: File }
+  | { kind: 'tar', file: File } // .tar, .tar.gz, .tgz or a single gzip-compressed file
+  | { kind: 'files', name: string, files: { path: string, file: File }[], skippedDirectories?: string[] } // folder input or dropped folder
+  | { kind: 'directory', handle: FileSystemDirectoryHandle }; // showDirectoryPicker
+
+export interface SecretFinding {
+  id: string; // unique per finding: `${path}:${start}`
+  path: string;
+  line: number; // 1-based
+  ruleId: string;
+  ruleLabel: string;
+  preview: string; // masked excerpt, safe to display
+  start: number; // offsets of the secret in the file content
+  end: number;
+}
+
+// `from` imports `to`; both are file paths in the pack
+export interface DependencyEdge {
+  from: string;
+  to: string;
+}
+
+export type SecretAction = 'redact' | 'exclude' | 'keep';
+
+// 'strip' removes comments and blank lines, 'outline' keeps only declarations and signatures
+export type CompressionLevel = 'full' | 'strip' | 'outline';
+
+export interface CompressionSettings {
+  level: CompressionLevel; // for the whole pack
+  rules: { pattern: string, level: CompressionLevel }[]; // per-glob overrides, the last match wins
+}
+
+export type OutputFormatId = 'markdown' | 'xml' | 'json' | 'plain';
+
+export interface SplitSettings {
+  enabled: boolean;
+  maxSize: number; // per part, in `unit`
+  unit: 'tokens' | 'bytes';
+  header: 'tree' | 'index'; // repeat the full tree or list only the part's files
+}
+
+export type ChangeStatus = 'added' | 'removed' | 'modified';
+
+export interface DiffSettings {
+  context: number; // unchanged lines around each change
+  includeNewVersion: boolean; // also pack the full new content of modified files
+}
+
+export interface DependencySettings {
+  enabled: boolean; // pack only files reachable from `entries`
+  entries: string[];
+  maxDepth: number | null; // import hops from an entry; null for no limit
+}
+
+export interface DedupSettings {
+  enabled: boolean; // print identical files once
+  ignoreWhitespace: boolean; // also treat files that differ only in whitespace as copies
+}
+
+export interface OutputPart {
+  fileName: string;
+  url: string;
+  size: number; // bytes
+  tokenCount: number;
+}
+
+export interface FileTreeNode {
+  name: string;
+  path: string;
+  isFile: boolean;
+  children: FileTreeNode[];
 }
 
 export enum ProcessingStatus {
   IDLE = 'IDLE',
   READING_ZIP = 'READING_ZIP',
+  SELECTING_FILES = 'SELECTING_FILES',
+  REVIEWING_SECRETS = 'REVIEWING_SECRETS',
   GENERATING_MD = 'GENERATING_MD',
   COMPLETED = 'COMPLETED',
   ERROR = 'ERROR'
 }
 
+export interface ProcessingStats {
+  fileCount: number;
+  totalSize: number;
+  tokenCount: number;
+  tokensSaved?: number; // by compression, summed over files
+  truncatedFiles?: number; // files cut by the file limits
+  generatedFiles?: number; // minified or generated files left out
+  dedup?: { files: number, bytesSaved: number, tokensSaved: number }; // files printed as references to identical ones
+}
+
+export interface ExtractionResult {
+  repoName: string; // archive name without extension, or the folder name
+  files: ProcessedFile[];
+  tree: string;
+  stats: ProcessingStats;
+  skippedBinaries: SkippedFile[];
+  secretFindings: SecretFinding[];
+  archiveIssues: ArchiveIssue[];
+  manifest: ManifestEntry[]; // every entry of the source with the reason it was or was not extracted
+  rootFolder?: string; // single top-level folder of all entries, like `repo-main` in GitHub archives
+}
+
 export interface ProcessingState {
   status: ProcessingStatus;
-  message: string;
+  message: LocalizedMessage | null;
   progress: number;
-  error?: string;
+  error?: LocalizedMessage;
   resultUrl?: string;
   fileName?: string;
-  stats?: {
-    fileCount: number;
-    totalSize: number;
-    tokenEstimate: number;
-  };
-}
\ No newline at end of file
+  stats?: ProcessingStats;
+  skippedBinaries?: SkippedFile[];
+  parts?: OutputPart[]; // set when the pack was split; resultUrl then points to a ZIP of all parts
+  savedToDisk?: string; // name of the file the output was streamed to, instead of resultUrl
+  packedFiles?: ProcessedFile[]; // entries of the generated pack, shown in the result viewer
+  manifest?: ManifestEntry[];
+}
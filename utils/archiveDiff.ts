@@ -0,0 +1,116 @@
+import { ChangeStatus, DiffSettings, ExtractionResult, ProcessedFile, SecretFinding } from '../types';
+import { getSharedRootFolder } from './zipProcessor';
+import { createUnifiedDiff } from './lineDiff';
+
+/**
+ * Compares two extracted archives (before and after a change) by path.
+ * The top-level folder of each archive is dropped first, so `repo-main/`
+ * and `repo-feature/` line up.
+ */
+
+export const DEFAULT_DIFF_SETTINGS: DiffSettings = {
+  context: 3,
+  includeNewVersion: false,
+};
+
+// Markers used in the project tree of a diff pack
+export const CHANGE_LABELS: Record<ChangeStatus, string> = {
+  added: '[added]',
+  removed: '[removed]',
+  modified: '[modified]',
+};
+
+export interface ArchiveComparison {
+  files: ProcessedFile[]; // one per changed path: the new version, or the old one for removed files
+  base: ProcessedFile[]; // old versions of modified and removed files
+  statuses: Record<string, ChangeStatus>;
+  secretFindings: SecretFinding[]; // findings in the new versions, re-keyed to the matched paths
+}
+
+const stripRoot = (result: ExtractionResult) => {
+  const root = getSharedRootFolder(result.files.map(f => f.path));
+  const strip = (path: string) => (root ? path.slice(root.length + 1) : path);
+  return {
+    files: result.files.map(file => ({ ...file, path: strip(file.path) })),
+    secretFindings: result.secretFindings.map(finding => {
+      const path = strip(finding.path);
+      return { ...finding, path, id: `${path}:${finding.start}` };
+    }),
+  };
+};
+
+export const compareArchives = (before: ExtractionResult, after: ExtractionResult): ArchiveComparison => {
+  const oldSide = stripRoot(before);
+  const newSide = stripRoot(after);
+  const oldFiles = new Map(oldSide.files.map(f => [f.path, f]));
+  const newFiles = new Map(newSide.files.map(f => [f.path, f]));
+
+  const files: ProcessedFile[] = [];
+  const base: ProcessedFile[] = [];
+  const statuses: Record<string, ChangeStatus> = {};
+
+  newFiles.forEach((file, path) => {
+    const old = oldFiles.get(path);
+    if (!old) {
+      statuses[path] = 'added';
+      files.push(file);
+    } else if (old.content !== file.content) {
+      statuses[path] = 'modified';
+      files.push(file);
+      base.push(old);
+    }
+  });
+  oldFiles.forEach((file, path) => {
+    if (newFiles.has(path)) return;
+    statuses[path] = 'removed';
+    files.push(file);
+    base.push(file);
+  });
+
+  files.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+
+  return {
+    files,
+    base,
+    statuses,
+    secretFindings: newSide.secretFindings.filter(f => statuses[f.path] === 'added' || statuses[f.path] === 'modified'),
+  };
+};
+
+/**
+ * Turns the selected changes into pack entries: added files in full,
+ * modified files as unified diffs (plus the new version if requested).
+ * Removed files have no content and only appear in the tree and change list.
+ */
+export const buildDiffFiles = (
+  files: ProcessedFile[],
+  base: ProcessedFile[],
+  statuses: Record<string, ChangeStatus>,
+  settings: DiffSettings,
+  countTokens: (text: string) => number
+): ProcessedFile[] => {
+  const oldFiles = new Map(base.map(f => [f.path, f]));
+  const textEncoder = new TextEncoder();
+  const result: ProcessedFile[] = [];
+
+  for (const file of files) {
+    const status = statuses[file.path];
+    if (status === 'added') {
+      result.push({ ...file, change: 'added' });
+    } else if (status === 'modified') {
+      const diff = createUnifiedDiff(file.path, file.path, oldFiles.get(file.path)?.content ?? '', file.content, settings.context);
+      result.push({
+        path: file.path,
+        content: diff.trimEnd(),
+        extension: 'diff',
+        size: textEncoder.encode(diff).length,
+        tokens: countTokens(diff),
+        change: 'modified',
+        isDiff: true,
+      });
+      if (settings.includeNewVersion) result.push({ ...file, change: 'modified' });
+    }
+  }
+
+  return result;
+};
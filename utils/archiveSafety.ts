@@ -0,0 +1,172 @@
+import { ArchiveIssue, ArchiveLimits } from '../types';
+import { LocalizedError, MessageParams } from './i18n';
+
+/**
+ * Checks applied to archive listings before extraction: size and ratio
+ * limits against zip bombs, and entry path sanitizing.
+ */
+
+const MB = 1024 * 1024;
+
+export const DEFAULT_ARCHIVE_LIMITS: ArchiveLimits = {
+  maxTotalSize: 512 * MB, // what a browser tab can comfortably hold
+  maxEntrySize: 100 * MB,
+  maxCompressionRatio: 200,
+  maxEntries: 100_000,
+};
+
+// Tiny files compress extremely well without being suspicious on their own,
+// so they are only judged together once they add up to this much
+const MIN_RATIO_CHECK_SIZE = MB;
+
+export class ArchiveLimitError extends LocalizedError {
+  constructor(key: 'error.archiveEntries' | 'error.archiveSize' | 'error.archiveRatio' | 'error.archiveTotalRatio' | 'error.entrySize', params: MessageParams) {
+    super(key, params);
+    this.name = 'ArchiveLimitError';
+  }
+}
+
+const formatMb = (bytes: number): string => `${(bytes / MB).toFixed(bytes < 10 * MB ? 1 : 0)} MB`;
+
+export interface ArchiveListing {
+  path: string;
+  size: number; // uncompressed
+  compressedSize?: number; // known for ZIP entries
+}
+
+// Applies the ratio limit to the summed sizes of a group of entries
+const assertGroupRatio = (entries: ArchiveListing[], limits: ArchiveLimits) => {
+  const size = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const compressed = entries.reduce((sum, entry) => sum + (entry.compressedSize ?? 0), 0);
+  if (size < MIN_RATIO_CHECK_SIZE || size <= compressed * limits.maxCompressionRatio) return;
+  const ratio = Math.round(size / Math.max(1, compressed));
+  throw new ArchiveLimitError('error.archiveTotalRatio', { count: entries.length, size, compressed, ratio, max: limits.maxCompressionRatio });
+};
+
+/**
+ * Throws when the archive as a whole is over the limits. Runs on the full
+ * listing, before any entry is skipped, so nothing is decompressed first.
+ */
+export const assertArchiveLimits = (entries: ArchiveListing[], limits: ArchiveLimits) => {
+  if (entries.length > limits.maxEntries) {
+    throw new ArchiveLimitError('error.archiveEntries', { count: entries.length, max: limits.maxEntries });
+  }
+
+  const total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  if (total > limits.maxTotalSize) {
+    throw new ArchiveLimitError('error.archiveSize', { size: total, max: limits.maxTotalSize });
+  }
+
+  const suspicious = entries.find(entry =>
+    entry.compressedSize !== undefined &&
+    entry.size >= MIN_RATIO_CHECK_SIZE &&
+    entry.size > entry.compressedSize * limits.maxCompressionRatio
+  );
+  if (suspicious) {
+    const ratio = Math.round(suspicious.size / Math.max(1, suspicious.compressedSize!));
+    throw new ArchiveLimitError('error.archiveRatio', { path: suspicious.path, ratio, max: limits.maxCompressionRatio });
+  }
+
+  // Thousands of small, highly compressed entries pass the check above one by one
+  const measured = entries.filter(entry => entry.compressedSize !== undefined);
+  const small = measured.filter(entry => entry.size < MIN_RATIO_CHECK_SIZE);
+  [small, measured].forEach(group => assertGroupRatio(group, limits));
+};
+
+/**
+ * Normalizes an entry name into a relative '/'-separated path. Absolute
+ * paths, drive letters and `..` segments that climb above the archive root
+ * are dropped; `changed` tells whether anything had to be removed.
+ */
+export const normalizeEntryPath = (name: string): { path: string, changed: boolean } => {
+  const parts: string[] = [];
+  let changed = false;
+
+  const segments = name.replace(/\\/g, '/').replace(/^[a-zA-Z]:/, () => {
+    changed = true;
+    return '';
+  }).split('/');
+
+  segments.forEach((segment, index) => {
+    if (segment === '' || segment === '.') {
+      // A leading slash makes the path absolute; a trailing one marks a directory
+      if (segment === '' && index === 0 && segments.length > 1) changed = true;
+      return;
+    }
+    if (segment === '..') {
+      if (parts.length > 0) parts.pop();
+      else changed = true;
+      return;
+    }
+    parts.push(segment);
+  });
+
+  return { path: parts.join('/'), changed };
+};
+
+/**
+ * Sanitizes entry paths and drops entries that are over the per-entry size
+ * limit, resolve to nothing, or repeat an earlier path. Every dropped or
+ * renamed entry is added to `issues`.
+ */
+export const sanitizeEntries = <T extends ArchiveListing>(
+  entries: T[],
+  limits: ArchiveLimits,
+  issues: ArchiveIssue[]
+): T[] => {
+  const seen = new Set<string>();
+  const result: T[] = [];
+
+  for (const entry of entries) {
+    const { path, changed } = normalizeEntryPath(entry.path);
+    if (!path) {
+      issues.push({ path: entry.path, kind: 'unsafe-path', size: entry.size });
+      continue;
+    }
+    if (changed) issues.push({ path: entry.path, kind: 'unsafe-path', detail: path });
+
+    if (seen.has(path)) {
+      issues.push({ path: entry.path, kind: 'duplicate', detail: path, size: entry.size });
+      continue;
+    }
+    seen.add(path);
+
+    if (entry.size > limits.maxEntrySize) {
+      issues.push({ path: entry.path, kind: 'too-large', detail: formatMb(entry.size), size: entry.size });
+      continue;
+    }
+
+    result.push({ ...entry, path });
+  }
+
+  return result;
+};
+
+/**
+ * Reads a decompression stream, failing once more than `maxSize` bytes come out.
+ * Guards against archives whose headers understate the real size.
+ */
+export const readLimited = async (stream: ReadableStream<Uint8Array>, maxSize: number, path: string): Promise<Uint8Array> => {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxSize) {
+      await reader.cancel();
+      throw new ArchiveLimitError('error.entrySize', { path, max: maxSize });
+    }
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+};
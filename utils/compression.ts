@@ -0,0 +1,511 @@
+import { CompressionLevel, CompressionSettings, ProcessedFile } from '../types';
+import { createGitignoreMatcher } from './gitignore';
+import { getExtension } from './textDetection';
+
+/**
+ * Lossy content compression for packs that do not fit a budget:
+ * 'strip' removes comments and blank lines (language-aware, strings are
+ * respected), 'outline' keeps only imports, type and class declarations and
+ * function signatures. Languages without an outliner fall back to 'strip'.
+ */
+
+export const DEFAULT_COMPRESSION_SETTINGS: CompressionSettings = {
+  level: 'full',
+  rules: [],
+};
+
+export const COMPRESSION_LEVELS: CompressionLevel[] = ['full', 'strip', 'outline'];
+
+interface CommentSyntax {
+  line: string[]; // line comment markers
+  block: [string, string][]; // block comment delimiters, checked before line markers
+  strings: string[]; // string delimiters, longest first; single-char quotes end at a newline
+  multilineStrings?: string[]; // delimiters whose strings may span lines
+  hashNeedsSpace?: boolean; // '#' starts a comment only at line start or after whitespace
+  regexLiterals?: boolean; // JavaScript /regex/ literals
+  nestedBlocks?: boolean; // Rust-style nested block comments
+}
+
+const C_STYLE: CommentSyntax = { line: ['//'], block: [['/*', '*/']], strings: ['"', "'"] };
+const JS_STYLE: CommentSyntax = { ...C_STYLE, strings: ['"', "'", '`'], multilineStrings: ['`'], regexLiterals: true };
+const JVM_STYLE: CommentSyntax = { ...C_STYLE, strings: ['"""', '"', "'"], multilineStrings: ['"""'] };
+const GO_STYLE: CommentSyntax = { ...C_STYLE, strings: ['"', "'", '`'], multilineStrings: ['`'] };
+const RUST_STYLE: CommentSyntax = { ...C_STYLE, strings: ['"'], nestedBlocks: true };
+const CSS_STYLE: CommentSyntax = { line: [], block: [['/*', '*/']], strings: ['"', "'"] };
+const SCSS_STYLE: CommentSyntax = { ...CSS_STYLE, line: ['//'] };
+const JSON_STYLE: CommentSyntax = { ...C_STYLE, strings: ['"'] }; // tsconfig-style JSON allows comments
+const PHP_STYLE: CommentSyntax = { ...C_STYLE, line: ['//', '#'], hashNeedsSpace: true };
+const HASH_STYLE: CommentSyntax = { line: ['#'], block: [], strings: ['"', "'"], hashNeedsSpace: true };
+const PYTHON_STYLE: CommentSyntax = { ...HASH_STYLE, strings: ['"""', "'''", '"', "'"], multilineStrings: ['"""', "'''"] };
+const CONFIG_STYLE: CommentSyntax = { line: ['#'], block: [], strings: [], hashNeedsSpace: true }; // .gitignore, .env
+const SQL_STYLE: CommentSyntax = { line: ['--'], block: [['/*', '*/']], strings: ["'", '"'] };
+const LUA_STYLE: CommentSyntax = { line: ['--'], block: [['--[[', ']]']], strings: ['"', "'"] };
+const MARKUP_STYLE: CommentSyntax = { line: [], block: [['<!--', '-->']], strings: [] };
+
+const SYNTAX_BY_EXTENSION: Record<string, CommentSyntax> = {
+  js: JS_STYLE, jsx: JS_STYLE, mjs: JS_STYLE, cjs: JS_STYLE, ts: JS_STYLE, tsx: JS_STYLE, mts: JS_STYLE, cts: JS_STYLE,
+  c: C_STYLE, h: C_STYLE, cpp: C_STYLE, cc: C_STYLE, hpp: C_STYLE, cs: C_STYLE, swift: JVM_STYLE, dart: C_STYLE,
+  java: JVM_STYLE, kt: JVM_STYLE, kts: JVM_STYLE, scala: JVM_STYLE, groovy: JVM_STYLE, gradle: JVM_STYLE,
+  go: GO_STYLE, rs: RUST_STYLE, php: PHP_STYLE,
+  css: CSS_STYLE, scss: SCSS_STYLE, less: SCSS_STYLE, json: JSON_STYLE,
+  py: PYTHON_STYLE, rb: HASH_STYLE, sh: HASH_STYLE, bash: HASH_STYLE, zsh: HASH_STYLE, r: HASH_STYLE, pl: HASH_STYLE,
+  yaml: HASH_STYLE, yml: HASH_STYLE, toml: HASH_STYLE, dockerfile: HASH_STYLE, properties: CONFIG_STYLE,
+  gitignore: CONFIG_STYLE, env: CONFIG_STYLE,
+  sql: SQL_STYLE, lua: LUA_STYLE,
+  html: MARKUP_STYLE, htm: MARKUP_STYLE, xml: MARKUP_STYLE, svg: MARKUP_STYLE, vue: MARKUP_STYLE, svelte: MARKUP_STYLE,
+};
+
+const SYNTAX_BY_FILENAME: Record<string, CommentSyntax> = {
+  dockerfile: HASH_STYLE, makefile: HASH_STYLE, vagrantfile: HASH_STYLE, jenkinsfile: JVM_STYLE,
+};
+
+const getSyntax = (path: string): CommentSyntax | undefined => {
+  const basename = (path.split('/').pop() || '').toLowerCase();
+  return SYNTAX_BY_FILENAME[basename] ?? SYNTAX_BY_EXTENSION[getExtension(path)];
+};
+
+const REGEX_PRECEDING_CHARS = '(,=:[!&|?{};+-*%<>~^';
+const REGEX_PRECEDING_WORDS = /\b(?:return|typeof|case|do|else|in|of|new|delete|void|throw|yield|await)$/;
+
+/**
+ * Returns the end (exclusive) of the string or regex literal starting at
+ * `pos`, or `pos` itself when no literal starts there. `before` is the code
+ * preceding `pos`, used to tell regex literals from division.
+ */
+const skipLiteral = (code: string, pos: number, syntax: CommentSyntax, before: () => string): number => {
+  for (const quote of syntax.strings) {
+    if (!code.startsWith(quote, pos)) continue;
+    const multiline = syntax.multilineStrings?.includes(quote) ?? false;
+    let i = pos + quote.length;
+    while (i < code.length) {
+      if (code[i] === '\\') {
+        i += 2;
+        continue;
+      }
+      if (code.startsWith(quote, i)) return i + quote.length;
+      if (code[i] === '\n' && !multiline) return i;
+      i++;
+    }
+    return code.length;
+  }
+
+  if (syntax.regexLiterals && code[pos] === '/' && code[pos + 1] !== '/' && code[pos + 1] !== '*') {
+    const prev = before().trimEnd();
+    if (prev === '' || REGEX_PRECEDING_CHARS.includes(prev[prev.length - 1]) || REGEX_PRECEDING_WORDS.test(prev)) {
+      let i = pos + 1;
+      let inClass = false;
+      while (i < code.length && code[i] !== '\n') {
+        if (code[i] === '\\') i++;
+        else if (code[i] === '[') inClass = true;
+        else if (code[i] === ']') inClass = false;
+        else if (code[i] === '/' && !inClass) return i + 1;
+        i++;
+      }
+    }
+  }
+
+  return pos;
+};
+
+export interface CodeSegment {
+  kind: 'code' | 'string' | 'comment'; // 'string' also covers regex literals
+  text: string;
+}
+
+/**
+ * Splits code into comments, string literals and everything else.
+ */
+const segmentComments = (code: string, syntax: CommentSyntax): CodeSegment[] => {
+  const segments: CodeSegment[] = [];
+  let codeStart = 0;
+  // The last characters of non-comment text, to tell regex literals from division
+  let tail = '';
+
+  const push = (kind: CodeSegment['kind'], from: number, to: number) => {
+    if (codeStart < from) {
+      segments.push({ kind: 'code', text: code.slice(codeStart, from) });
+      tail = (tail + code.slice(codeStart, from)).slice(-64);
+    }
+    segments.push({ kind, text: code.slice(from, to) });
+    if (kind !== 'comment') tail = (tail + code.slice(from, to)).slice(-64);
+    codeStart = to;
+  };
+
+  let pos = 0;
+  while (pos < code.length) {
+    const literalEnd = skipLiteral(code, pos, syntax, () => (tail + code.slice(Math.max(codeStart, pos - 64), pos)).slice(-64));
+    if (literalEnd > pos) {
+      push('string', pos, literalEnd);
+      pos = literalEnd;
+      continue;
+    }
+
+    const block = syntax.block.find(([open]) => code.startsWith(open, pos));
+    if (block) {
+      const [open, close] = block;
+      let depth = 1;
+      let i = pos + open.length;
+      while (i < code.length && depth > 0) {
+        if (syntax.nestedBlocks && code.startsWith(open, i)) {
+          depth++;
+          i += open.length;
+        } else if (code.startsWith(close, i)) {
+          depth--;
+          i += close.length;
+        } else {
+          i++;
+        }
+      }
+      push('comment', pos, i);
+      pos = i;
+      continue;
+    }
+
+    const lineMarker = syntax.line.find(marker => code.startsWith(marker, pos));
+    const atWordBoundary = pos === 0 || /\s/.test(code[pos - 1]);
+    if (lineMarker && (lineMarker !== '#' || !syntax.hashNeedsSpace || atWordBoundary)) {
+      const newline = code.indexOf('\n', pos);
+      const lineEnd = newline === -1 ? code.length : newline;
+      push('comment', pos, lineEnd);
+      pos = lineEnd;
+      continue;
+    }
+
+    pos++;
+  }
+  if (codeStart < code.length) segments.push({ kind: 'code', text: code.slice(codeStart) });
+
+  return segments;
+};
+
+const removeComments = (code: string, syntax: CommentSyntax): string =>
+  segmentComments(code, syntax)
+    .filter(segment => segment.kind !== 'comment')
+    .map(segment => segment.text)
+    .join('');
+
+/**
+ * Splits a file into code, string and comment segments using the comment
+ * syntax of its language; null for languages without a known syntax.
+ */
+export const segmentCode = (path: string, content: string): CodeSegment[] | null => {
+  const syntax = getSyntax(path);
+  return syntax ? segmentComments(content, syntax) : null;
+};
+
+const removeBlankLines = (code: string): string =>
+  code
+    .split('\n')
+    .map(line => line.trimEnd())
+    .filter(line => line !== '')
+    .join('\n');
+
+const stripComments = (content: string, syntax: CommentSyntax): string => {
+  // Keep the shebang, it tells which interpreter runs the script
+  const shebang = content.startsWith('#!') ? content.slice(0, content.indexOf('\n') + 1 || content.length) : '';
+  return removeBlankLines(shebang + removeComments(content.slice(shebang.length), syntax));
+};
+
+type BlockKind = 'verbatim' | 'members' | 'elide';
+
+interface BraceOutlineRules {
+  // How to render a `{` block given the statement text before it
+  blockKind: (header: string, parenDepth: number) => BlockKind;
+  keepStatement: (statement: string, inMembers: boolean) => boolean;
+  newlineEndsStatement: boolean;
+}
+
+const MODIFIERS = '(?:(?:export|default|declare|abstract|public|private|protected|internal|static|final|sealed|async)\\s+)*';
+
+const TS_RULES: BraceOutlineRules = {
+  blockKind: (header, parenDepth) => {
+    if (/:\s*$/.test(header)) return 'verbatim'; // object type annotation
+    if (parenDepth > 0) return 'elide';
+    if (new RegExp(`^${MODIFIERS}(?:const\\s+)?(?:interface|enum)\\b|^${MODIFIERS}type\\s+[\\w$]+`).test(header)) return 'verbatim';
+    if (/^import\b|^export(?:\s+type)?\s*$/.test(header)) return 'verbatim';
+    if (new RegExp(`^${MODIFIERS}(?:class|namespace|module)\\b(?!\\.)|^declare\\s+global\\b`).test(header)) return 'members';
+    return 'elide';
+  },
+  keepStatement: (statement, inMembers) =>
+    inMembers ||
+    /^(?:import|export|@)/.test(statement) ||
+    new RegExp(`^${MODIFIERS}(?:function|class|interface|type|enum|namespace|module)\\b(?!\\.)`).test(statement) ||
+    /^(?:const|let|var)\s+[\w$]+\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\(|[\w$]+\s*=>|<)/.test(statement),
+  newlineEndsStatement: true,
+};
+
+const GO_RULES: BraceOutlineRules = {
+  blockKind: header => (/^type\b|\b(?:struct|interface)\s*$/.test(header) ? 'verbatim' : 'elide'),
+  keepStatement: statement => /^(?:package|import|type|func)\b/.test(statement),
+  newlineEndsStatement: true,
+};
+
+const JAVA_RULES: BraceOutlineRules = {
+  blockKind: (header, parenDepth) => {
+    if (parenDepth > 0) return 'elide';
+    return /\b(?:class|interface|enum)\b[^=]*$|\brecord\s+\w+\s*(?:<[^>]*>)?\s*\(/.test(header) ? 'members' : 'elide';
+  },
+  keepStatement: (statement, inMembers) =>
+    inMembers || /^(?:package|import|@)/.test(statement) || /\b(?:class|interface|enum|record)\b/.test(statement),
+  newlineEndsStatement: false,
+};
+
+const CONTINUATION_END = /[,([{=+\-*/&|?:.<>!]$/;
+const CONTINUATION_START = /^[.?:|&]/;
+
+/**
+ * Statement-level outliner for brace languages. Function bodies and other
+ * code blocks collapse to `{ … }`; class-like bodies are outlined
+ * recursively; type declarations are kept verbatim.
+ */
+const outlineBraces = (code: string, syntax: CommentSyntax, rules: BraceOutlineRules): string => {
+  let pos = 0;
+
+  const findBlockEnd = (open: number): number => {
+    let depth = 0;
+    let i = open;
+    while (i < code.length) {
+      const literalEnd = skipLiteral(code, i, syntax, () => code.slice(Math.max(0, i - 32), i));
+      if (literalEnd > i) {
+        i = literalEnd;
+        continue;
+      }
+      if (code[i] === '{') depth++;
+      else if (code[i] === '}' && --depth === 0) return i;
+      i++;
+    }
+    return code.length;
+  };
+
+  const parseBody = (end: number, inMembers: boolean): string[] => {
+    const out: string[] = [];
+    let statement = '';
+    let depth = 0;
+
+    const flush = () => {
+      const text = statement.replace(/^\s*\n/, '').trimEnd();
+      const trimmed = text.trim();
+      if (trimmed && trimmed !== ';' && trimmed !== '{ … }' && rules.keepStatement(trimmed, inMembers)) out.push(text);
+      statement = '';
+      depth = 0;
+    };
+
+    const nextCode = () => code.slice(pos, Math.min(end, pos + 64)).replace(/^[ \t]*/, '');
+
+    while (pos < end) {
+      const literalEnd = skipLiteral(code, pos, syntax, () => statement.slice(-64));
+      if (literalEnd > pos) {
+        statement += code.slice(pos, Math.min(literalEnd, end));
+        pos = literalEnd;
+        continue;
+      }
+
+      const ch = code[pos];
+      if (ch === '{') {
+        const close = Math.min(findBlockEnd(pos), end);
+        const body = code.slice(pos + 1, close);
+        // Empty blocks and one-line blocks in parentheses (destructured parameters) are kept as they are
+        const kind = body.trim() === '' || (depth > 0 && !body.includes('\n')) ? 'verbatim' : rules.blockKind(statement.trim(), depth);
+        const layout = kind === 'members' && !body.includes('\n') ? 'verbatim' : kind;
+        if (layout === 'verbatim') {
+          statement += code.slice(pos, close + 1);
+          pos = close + 1;
+        } else if (layout === 'elide') {
+          statement += '{ … }';
+          pos = close + 1;
+        } else {
+          const indent = statement.replace(/^\s*\n/, '').match(/^[ \t]*/)![0];
+          pos++;
+          const members = parseBody(close, true);
+          statement += `{\n${members.join('\n')}${members.length ? '\n' : ''}${indent}}`;
+          pos = close + 1;
+        }
+        // A block closed at the end of a line ends the statement
+        if (depth === 0 && /^(?:\r?\n|$)/.test(nextCode())) flush();
+        continue;
+      }
+
+      if (ch === '(' || ch === '[') depth++;
+      else if (ch === ')' || ch === ']') depth = Math.max(0, depth - 1);
+
+      if (ch === ';' && depth === 0) {
+        statement += ch;
+        pos++;
+        flush();
+        continue;
+      }
+      if (ch === '\n' && depth === 0 && rules.newlineEndsStatement) {
+        const trimmed = statement.trim();
+        const next = code.slice(pos + 1, Math.min(end, pos + 64)).trimStart();
+        if (trimmed && !CONTINUATION_END.test(trimmed) && !CONTINUATION_START.test(next)) {
+          pos++;
+          flush();
+          continue;
+        }
+      }
+
+      statement += ch;
+      pos++;
+    }
+
+    flush();
+    return out;
+  };
+
+  return parseBody(code.length, false).join('\n');
+};
+
+/**
+ * Splits Python source into logical lines: bracketed continuations,
+ * backslash continuations and multi-line strings are joined.
+ */
+const pythonLogicalLines = (code: string): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  let depth = 0;
+  let pos = 0;
+
+  while (pos < code.length) {
+    const literalEnd = skipLiteral(code, pos, PYTHON_STYLE, () => current.slice(-64));
+    if (literalEnd > pos) {
+      current += code.slice(pos, literalEnd);
+      pos = literalEnd;
+      continue;
+    }
+    const ch = code[pos];
+    if ('([{'.includes(ch)) depth++;
+    else if (')]}'.includes(ch)) depth = Math.max(0, depth - 1);
+
+    if (ch === '\n' && depth === 0 && !current.endsWith('\\')) {
+      lines.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+    pos++;
+  }
+  if (current) lines.push(current);
+  return lines.filter(line => line.trim() !== '');
+};
+
+const outlinePython = (code: string): string => {
+  const out: string[] = [];
+  const scopes: { indent: number, kind: 'class' | 'def' }[] = [];
+
+  for (const line of pythonLogicalLines(code)) {
+    const indent = line.match(/^[ \t]*/)![0].length;
+    const text = line.trim();
+    while (scopes.length && scopes[scopes.length - 1].indent >= indent) scopes.pop();
+    if (scopes.some(scope => scope.kind === 'def')) continue;
+
+    const inClass = scopes.length > 0;
+    if (/^(?:async\s+)?def\s/.test(text)) {
+      out.push(line);
+      if (text.endsWith(':')) out.push(`${' '.repeat(indent + 4)}...`);
+      scopes.push({ indent, kind: 'def' });
+    } else if (/^class\s/.test(text)) {
+      out.push(line);
+      scopes.push({ indent, kind: 'class' });
+    } else if (/^(?:@|import\s|from\s.+\simport\s)/.test(text)) {
+      out.push(line);
+    } else if (inClass && /^[A-Za-z_]\w*\s*(?::|=(?!=))/.test(text)) {
+      out.push(line); // class attributes and dataclass fields
+    }
+  }
+
+  return out.join('\n');
+};
+
+const OUTLINERS: Record<string, (code: string) => string> = {
+  ts: code => outlineBraces(code, JS_STYLE, TS_RULES),
+  go: code => outlineBraces(code, GO_STYLE, GO_RULES),
+  java: code => outlineBraces(code, JVM_STYLE, JAVA_RULES),
+  py: outlinePython,
+};
+['tsx', 'mts', 'cts', 'js', 'jsx', 'mjs', 'cjs'].forEach(ext => { OUTLINERS[ext] = OUTLINERS.ts; });
+
+/**
+ * Compresses one file's content. Returns the level actually applied: files
+ * without known comment syntax stay 'full', 'outline' falls back to 'strip'
+ * for languages without an outliner.
+ */
+export const compressContent = (
+  path: string,
+  content: string,
+  level: CompressionLevel
+): { content: string, level: CompressionLevel } => {
+  const syntax = getSyntax(path);
+  if (level === 'full' || !syntax) return { content, level: 'full' };
+
+  const stripped = stripComments(content, syntax);
+  const outliner = OUTLINERS[getExtension(path)];
+  if (level === 'outline' && outliner) return { content: outliner(stripped), level: 'outline' };
+  return { content: stripped, level: 'strip' };
+};
+
+/**
+ * Returns the level for a path: the last matching per-glob rule, else the pack level.
+ */
+export const createCompressionResolver = (settings: CompressionSettings) => {
+  const rules = settings.rules.map(rule => ({
+    level: rule.level,
+    matches: createGitignoreMatcher([{ baseDir: '', content: rule.pattern }], { ignoreCase: true }),
+  }));
+  return (path: string): CompressionLevel => {
+    for (let i = rules.length - 1; i >= 0; i--) {
+      if (rules[i].matches(path)) return rules[i].level;
+    }
+    return settings.level;
+  };
+};
+
+/**
+ * Parses per-glob rules from textarea input, one `<glob> <level>` per line.
+ * Lines with an unknown level are ignored.
+ */
+export const parseCompressionRules = (text: string): CompressionSettings['rules'] =>
+  text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => {
+      const space = line.lastIndexOf(' ');
+      return { pattern: line.slice(0, space).trim(), level: line.slice(space + 1) as CompressionLevel };
+    })
+    .filter(rule => rule.pattern && COMPRESSION_LEVELS.includes(rule.level));
+
+export const formatCompressionRules = (rules: CompressionSettings['rules']): string =>
+  rules.map(rule => `${rule.pattern} ${rule.level}`).join('\n');
+
+/**
+ * Applies the compression settings to the files, re-measuring the ones that
+ * changed. `tokensSaved` is the difference in per-file token counts.
+ */
+export const compressFiles = (
+  files: ProcessedFile[],
+  settings: CompressionSettings,
+  countTokens: (text: string) => number
+): { files: ProcessedFile[], tokensSaved: number } => {
+  const resolveLevel = createCompressionResolver(settings);
+  const textEncoder = new TextEncoder();
+  let tokensSaved = 0;
+
+  const result = files.map(file => {
+    // Diff lines are not valid code
+    if (file.isDiff) return file;
+    const compressed = compressContent(file.path, file.content, resolveLevel(file.path));
+    if (compressed.level === 'full') return file;
+
+    const tokens = countTokens(compressed.content);
+    tokensSaved += file.tokens - tokens;
+    return {
+      ...file,
+      content: compressed.content,
+      size: textEncoder.encode(compressed.content).length,
+      tokens,
+      compression: compressed.level,
+    };
+  });
+
+  return { files: result, tokensSaved };
+};
@@ -0,0 +1,419 @@
+import { ContentHandlerId, ContentHandlerSettings, NotebookOutputMode, SvgMode } from '../types';
+import { getExtension } from './textDetection';
+
+/**
+ * Content handlers: structured files that are mostly noise when packed
+ * verbatim (notebooks full of base64 outputs, data dumps, vector art) are
+ * rewritten into a compact form. The handler's note goes into the file heading.
+ */
+
+export const DEFAULT_CONTENT_HANDLERS: ContentHandlerSettings = {
+  enabled: true,
+  notebookOutputs: 'truncate',
+  outputLines: 10,
+  tableRows: 20,
+  dataMaxBytes: 64 * 1024,
+  svg: 'summarize',
+};
+
+export const NOTEBOOK_OUTPUT_MODES: NotebookOutputMode[] = ['strip', 'truncate'];
+export const SVG_MODES: SvgMode[] = ['include', 'summarize'];
+
+export interface HandledContent {
+  handler: ContentHandlerId;
+  content: string;
+  note: string; // e.g. "12 cells, outputs stripped"
+}
+
+const formatKb = (bytes: number): string => `${(bytes / 1024).toFixed(1)} KB`;
+
+const moreMarker = (count: number, unit: string) => `… ${count} more ${unit} …`;
+
+const splitLines = (text: string): string[] => {
+  const lines = text.split('\n');
+  if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+// Notebook sources and outputs are stored as a string or a list of lines
+const joinSource = (source: unknown): string =>
+  (Array.isArray(source) ? source.join('') : typeof source === 'string' ? source : '');
+
+// ---- Notebooks ----
+
+// Cells are written in the "percent" format editors and jupytext understand
+const LINE_COMMENTS: Record<string, string> = {
+  javascript: '//', typescript: '//', java: '//', scala: '//', kotlin: '//', 'c++': '//', c: '//', csharp: '//', 'c#': '//',
+  go: '//', rust: '//', swift: '//', sql: '--', haskell: '--', lua: '--', matlab: '%', octave: '%',
+};
+
+// The parts of the nbformat 3 and 4 JSON that the conversion reads
+interface NotebookOutput {
+  output_type?: string;
+  text?: unknown; // stream text
+  data?: Record<string, unknown>; // rich outputs by MIME type
+  ename?: string;
+  evalue?: string;
+}
+
+interface NotebookCell {
+  cell_type?: string;
+  source?: unknown;
+  input?: unknown; // nbformat 3 code cells
+  outputs?: NotebookOutput[];
+}
+
+interface Notebook {
+  metadata?: { kernelspec?: { language?: string }, language_info?: { name?: string } };
+  cells?: NotebookCell[];
+  worksheets?: { cells?: NotebookCell[] }[]; // nbformat 3
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const notebookLanguage = (notebook: Notebook): string =>
+  String(notebook.metadata?.kernelspec?.language ?? notebook.metadata?.language_info?.name ?? 'python').toLowerCase();
+
+// Text of an output as it would be shown under the cell; rich media only by type
+const outputText = (output: NotebookOutput): string => {
+  if (output.output_type === 'stream') return joinSource(output.text);
+  if (output.output_type === 'error') return `${output.ename}: ${output.evalue}`;
+  const data = isObject(output.data) ? output.data : {};
+  if (data['text/plain'] !== undefined) return joinSource(data['text/plain']);
+  const types = Object.keys(data);
+  return types.length > 0 ? `[${types.join(', ')} output]` : '';
+};
+
+// Cells of a parsed notebook, or undefined when the JSON is not a notebook
+const notebookCells = (notebook: Notebook): NotebookCell[] | undefined => {
+  const cells = Array.isArray(notebook.cells)
+    ? notebook.cells
+    : Array.isArray(notebook.worksheets)
+      ? notebook.worksheets.flatMap(sheet => (isObject(sheet) && Array.isArray(sheet.cells) ? sheet.cells : []))
+      : undefined;
+  return cells?.filter(isObject);
+};
+
+const convertNotebook = (content: string, settings: ContentHandlerSettings): HandledContent | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return null;
+  }
+  if (!isObject(parsed)) return null;
+  const notebook: Notebook = parsed;
+  const cells = notebookCells(notebook);
+  if (!cells) return null;
+
+  const comment = LINE_COMMENTS[notebookLanguage(notebook)] ?? '#';
+  const counts = { code: 0, markdown: 0, outputs: 0 };
+  const blocks = cells.map(cell => {
+    const source = joinSource(cell.source ?? cell.input).replace(/\n+$/, '');
+    if (cell.cell_type !== 'code') {
+      counts.markdown++;
+      const kind = cell.cell_type === 'markdown' ? 'markdown' : cell.cell_type ?? 'raw';
+      return `${comment} %% [${kind}]\n${splitLines(source).map(line => (line ? `${comment} ${line}` : comment)).join('\n')}`;
+    }
+
+    counts.code++;
+    const outputs = Array.isArray(cell.outputs) ? cell.outputs.filter(isObject) : [];
+    counts.outputs += outputs.length;
+    let block = `${comment} %%\n${source}`;
+    if (settings.notebookOutputs === 'truncate' && outputs.length > 0) {
+      const lines = outputs.flatMap(output => splitLines(outputText(output).replace(/\n+$/, '')));
+      const kept = lines.slice(0, Math.max(1, settings.outputLines));
+      if (lines.length > kept.length) kept.push(moreMarker(lines.length - kept.length, 'lines'));
+      block += `\n${comment} Output:\n${kept.map(line => `${comment} ${line}`).join('\n')}`;
+    }
+    return block;
+  });
+
+  const outputNote = counts.outputs === 0
+    ? ''
+    : settings.notebookOutputs === 'strip'
+      ? `, ${counts.outputs} outputs stripped`
+      : `, outputs cut to ${settings.outputLines} lines`;
+  return {
+    handler: 'notebook',
+    content: `${blocks.join('\n\n')}\n`,
+    note: `${counts.code} code and ${counts.markdown} markdown cells${outputNote}`,
+  };
+};
+
+// ---- CSV / TSV ----
+
+/**
+ * Splits delimited text into records; quoted fields may contain line breaks.
+ * Returns the raw text of each record.
+ */
+const splitRecords = (content: string): string[] => {
+  const records: string[] = [];
+  let start = 0;
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '"') quoted = !quoted;
+    else if (char === '\n' && !quoted) {
+      records.push(content.slice(start, i).replace(/\r$/, ''));
+      start = i + 1;
+    }
+  }
+  if (start < content.length) records.push(content.slice(start).replace(/\r$/, ''));
+  return records.filter(record => record.trim() !== '');
+};
+
+const sampleTable = (content: string, settings: ContentHandlerSettings): HandledContent | null => {
+  const records = splitRecords(content);
+  const rows = records.length - 1; // the first record is the header
+  const keep = Math.max(1, settings.tableRows);
+  if (rows <= keep) return null;
+
+  return {
+    handler: 'table',
+    content: `${records.slice(0, keep + 1).join('\n')}\n${moreMarker(rows - keep, 'rows')}\n`,
+    note: `header and ${keep} of ${rows} rows`,
+  };
+};
+
+// ---- JSON / YAML ----
+
+// Array items inspected for the shape, and kept in the excerpt
+const SHAPE_SAMPLE_ITEMS = 50;
+const EXCERPT_ITEMS = 3;
+const EXCERPT_STRING_LENGTH = 80;
+const EXCERPT_LINES = 60;
+const MAX_SHAPE_DEPTH = 8;
+const MAX_SHAPE_KEYS = 40;
+
+// Structural type of a JSON value: the union of everything seen at one position
+interface Shape {
+  types: Set<string>; // 'string', 'number', 'boolean', 'null'
+  keys?: Map<string, Shape>; // when objects were seen
+  items?: Shape; // when arrays were seen
+  minLength?: number; // array lengths
+  maxLength?: number;
+}
+
+const emptyShape = (): Shape => ({ types: new Set() });
+
+const addToShape = (shape: Shape, value: unknown, depth: number): void => {
+  if (Array.isArray(value)) {
+    shape.minLength = Math.min(shape.minLength ?? value.length, value.length);
+    shape.maxLength = Math.max(shape.maxLength ?? value.length, value.length);
+    shape.items ??= emptyShape();
+    if (depth < MAX_SHAPE_DEPTH) value.slice(0, SHAPE_SAMPLE_ITEMS).forEach(item => addToShape(shape.items!, item, depth + 1));
+  } else if (value !== null && typeof value === 'object') {
+    shape.keys ??= new Map();
+    if (depth < MAX_SHAPE_DEPTH) {
+      Object.entries(value).forEach(([key, item]) => {
+        let child = shape.keys!.get(key);
+        if (!child) {
+          child = emptyShape();
+          shape.keys!.set(key, child);
+        }
+        addToShape(child, item, depth + 1);
+      });
+    }
+  } else {
+    shape.types.add(value === null ? 'null' : typeof value);
+  }
+};
+
+const renderShape = (shape: Shape, indent: string): string => {
+  const variants = [...shape.types];
+  if (shape.items) {
+    const length = shape.minLength === shape.maxLength ? `${shape.minLength}` : `${shape.minLength}–${shape.maxLength}`;
+    const items = shape.items.types.size > 0 || shape.items.keys || shape.items.items ? ` of ${renderShape(shape.items, indent)}` : '';
+    variants.push(`array(${length})${items}`);
+  }
+  if (shape.keys) {
+    const inner = `${indent}  `;
+    const entries = [...shape.keys.entries()];
+    const lines = entries.slice(0, MAX_SHAPE_KEYS).map(([key, child]) => `${inner}${JSON.stringify(key)}: ${renderShape(child, inner)}`);
+    if (entries.length > MAX_SHAPE_KEYS) lines.push(`${inner}${moreMarker(entries.length - MAX_SHAPE_KEYS, 'keys')}`);
+    variants.push(lines.length > 0 ? `{\n${lines.join(',\n')}\n${indent}}` : '{}');
+  }
+  return variants.length > 0 ? variants.join(' | ') : 'unknown';
+};
+
+// The value with every array cut to a few items and long strings shortened
+const excerptValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    const items = value.slice(0, EXCERPT_ITEMS).map(excerptValue);
+    return value.length > EXCERPT_ITEMS ? [...items, moreMarker(value.length - EXCERPT_ITEMS, 'items')] : items;
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, excerptValue(item)]));
+  }
+  if (typeof value === 'string' && value.length > EXCERPT_STRING_LENGTH) {
+    return `${value.slice(0, EXCERPT_STRING_LENGTH)}…`;
+  }
+  return value;
+};
+
+const firstLines = (text: string, count: number): string => {
+  const lines = splitLines(text);
+  if (lines.length <= count) return lines.join('\n');
+  return `${lines.slice(0, count).join('\n')}\n${moreMarker(lines.length - count, 'lines')}`;
+};
+
+const summarizeJson = (content: string, byteLength: number): HandledContent | null => {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch {
+    return null;
+  }
+  const shape = emptyShape();
+  addToShape(shape, value, 0);
+  const excerpt = firstLines(JSON.stringify(excerptValue(value), null, 2), EXCERPT_LINES);
+  return {
+    handler: 'data',
+    content: `Shape:\n${renderShape(shape, '')}\n\nExcerpt (arrays cut to ${EXCERPT_ITEMS} items):\n${excerpt}\n`,
+    note: `shape and excerpt of ${formatKb(byteLength)}`,
+  };
+};
+
+// Key outline of a YAML document, built from indentation alone
+interface YamlNode {
+  keys: Map<string, YamlNode>;
+  items: number; // sequence entries directly under this key
+}
+
+const YAML_LINE = /^(\s*)(-\s+)?(?:(["']?)([^"'#:\s][^#:]*?)\3\s*:(?:\s+(.*))?$|(.*))$/;
+
+const outlineYaml = (content: string): { root: YamlNode, documents: number } => {
+  const root: YamlNode = { keys: new Map(), items: 0 };
+  // Keys that are still open, by indentation
+  let stack: { indent: number, node: YamlNode }[] = [{ indent: -1, node: root }];
+  let blockIndent: number | null = null; // inside a `|` or `>` block scalar
+  let documents = 0;
+  let hasContent = false;
+
+  for (const line of content.split('\n')) {
+    if (/^---(\s|$)/.test(line)) {
+      if (hasContent) documents++;
+      hasContent = false;
+      stack = [{ indent: -1, node: root }];
+      blockIndent = null;
+      continue;
+    }
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    hasContent = true;
+
+    const indent = line.length - line.trimStart().length;
+    if (blockIndent !== null) {
+      if (indent > blockIndent) continue;
+      blockIndent = null;
+    }
+
+    const [, , dash, , key, value] = line.match(YAML_LINE) ?? [];
+    while (stack.length > 1 && stack[stack.length - 1].indent >= indent) stack.pop();
+    const parent = stack[stack.length - 1].node;
+
+    if (dash) {
+      parent.items++;
+      // Keys of all sequence entries are merged under the sequence's key
+      if (key) stack.push({ indent, node: parent });
+    }
+    if (!key) continue;
+
+    let node = parent.keys.get(key);
+    if (!node) {
+      node = { keys: new Map(), items: 0 };
+      parent.keys.set(key, node);
+    }
+    const keyIndent = dash ? indent + dash.length : indent;
+    if (value && /^[|>][-+0-9]*$/.test(value.trim())) blockIndent = keyIndent;
+    else if (!value) stack.push({ indent: keyIndent, node });
+  }
+
+  if (hasContent) documents++;
+  return { root, documents: Math.max(1, documents) };
+};
+
+const renderYamlOutline = (node: YamlNode, indent: string): string[] =>
+  [...node.keys.entries()].slice(0, MAX_SHAPE_KEYS * 4).flatMap(([key, child]) => [
+    `${indent}${key}:${child.items > 0 ? ` [${child.items} items]` : ''}`,
+    ...renderYamlOutline(child, `${indent}  `),
+  ]);
+
+const summarizeYaml = (content: string, byteLength: number): HandledContent => {
+  const { root, documents } = outlineYaml(content);
+  const outline = renderYamlOutline(root, '');
+  if (root.items > 0) outline.unshift(`[${root.items} items]`);
+  const heading = documents > 1 ? `Keys (${documents} documents):` : 'Keys:';
+  return {
+    handler: 'data',
+    content: `${heading}\n${firstLines(outline.join('\n'), EXCERPT_LINES * 2)}\n\nExcerpt:\n${firstLines(content, EXCERPT_LINES)}\n`,
+    note: `key outline and excerpt of ${formatKb(byteLength)}`,
+  };
+};
+
+// ---- SVG ----
+
+const SVG_ATTRIBUTES = ['width', 'height', 'viewBox'];
+
+const summarizeSvg = (content: string): HandledContent | null => {
+  const root = content.match(/<svg\b[^>]*>/i);
+  if (!root) return null;
+
+  const attributes = SVG_ATTRIBUTES
+    .map(name => root[0].match(new RegExp(`\\s${name}\\s*=\\s*("[^"]*"|'[^']*')`)))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => match[0].trim());
+
+  const elements = new Map<string, number>();
+  for (const [, name] of content.matchAll(/<([a-zA-Z][\w:-]*)/g)) {
+    if (name.toLowerCase() !== 'svg') elements.set(name, (elements.get(name) ?? 0) + 1);
+  }
+  const counts = [...elements.entries()].sort((a, b) => b[1] - a[1]).map(([name, count]) => `${name} ×${count}`);
+
+  const text = (tag: string) => content.match(new RegExp(`<${tag}[^>]*>([\\s\\S]*?)</${tag}>`, 'i'))?.[1].trim();
+  const title = text('title');
+  const description = text('desc');
+  const lines = [
+    `<svg ${attributes.join(' ')}>`.replace(' >', '>'),
+    ...(title ? [`Title: ${title}`] : []),
+    ...(description ? [`Description: ${description}`] : []),
+    `Elements: ${counts.length > 0 ? counts.join(', ') : 'none'}`,
+  ];
+  return { handler: 'svg', content: `${lines.join('\n')}\n`, note: 'summarized' };
+};
+
+/**
+ * Rewrites a decoded file with the handler for its type, or returns null to
+ * keep it verbatim: handlers are off, the type has no handler, the content
+ * does not parse, or it is already small (short tables, data files under
+ * `dataMaxBytes`). The per-file limits still apply to the result.
+ */
+export const applyContentHandler = (
+  path: string,
+  content: string,
+  byteLength: number,
+  settings: ContentHandlerSettings
+): HandledContent | null => {
+  if (!settings.enabled) return null;
+
+  const extension = getExtension(path);
+  const isLargeData = settings.dataMaxBytes > 0 && byteLength > settings.dataMaxBytes;
+  switch (extension) {
+    case 'ipynb':
+      return convertNotebook(content, settings);
+    case 'csv':
+    case 'tsv':
+      return sampleTable(content, settings);
+    case 'json':
+      return isLargeData ? summarizeJson(content, byteLength) : null;
+    case 'yaml':
+    case 'yml':
+      return isLargeData ? summarizeYaml(content, byteLength) : null;
+    case 'svg':
+      return settings.svg === 'summarize' ? summarizeSvg(content) : null;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,107 @@
+import { DedupSettings, ProcessedFile } from '../types';
+
+/**
+ * Content-hash deduplication: copied configs, LICENSE files and vendored
+ * libraries are printed once; later copies become a one-line reference.
+ */
+
+export const DEFAULT_DEDUP_SETTINGS: DedupSettings = {
+  enabled: true,
+  ignoreWhitespace: false,
+};
+
+export interface DedupResult {
+  files: ProcessedFile[]; // same order; duplicates carry `duplicateOf` and a reference as content
+  duplicates: number;
+  bytesSaved: number;
+  tokensSaved: number;
+}
+
+/**
+ * 53-bit string hash (cyrb53). Equal hashes are confirmed by comparing the
+ * contents, so collisions only cost a comparison.
+ */
+export const hashContent = (text: string): number => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+};
+
+const stripWhitespace = (text: string): string => text.replace(/\s+/g, '');
+
+export const duplicateReference = (original: string, nearDuplicate: boolean): string =>
+  nearDuplicate ? `Same as \`${original}\` except for whitespace.` : `Identical to \`${original}\`.`;
+
+/**
+ * Replaces every file whose content already appeared earlier in `files`
+ * with a reference to that first occurrence. With `ignoreWhitespace`, files
+ * that differ only in whitespace count as copies too. Files too small for
+ * the reference to be any shorter are left alone.
+ */
+export const deduplicateFiles = (
+  files: ProcessedFile[],
+  settings: DedupSettings,
+  countTokens: (text: string) => number
+): DedupResult => {
+  if (!settings.enabled) return { files, duplicates: 0, bytesSaved: 0, tokensSaved: 0 };
+
+  const textEncoder = new TextEncoder();
+  const exact = new Map<number, ProcessedFile[]>();
+  const loose = new Map<number, { file: ProcessedFile, key: string }[]>();
+  let duplicates = 0;
+  let bytesSaved = 0;
+  let tokensSaved = 0;
+
+  const findOriginal = (file: ProcessedFile): { original: ProcessedFile, near: boolean } | null => {
+    const hash = hashContent(file.content);
+    const same = exact.get(hash)?.find(candidate => candidate.content === file.content);
+    if (same) return { original: same, near: false };
+
+    if (settings.ignoreWhitespace) {
+      const key = stripWhitespace(file.content);
+      const near = loose.get(hashContent(key))?.find(candidate => candidate.key === key);
+      if (near) return { original: near.file, near: true };
+    }
+    return null;
+  };
+
+  const remember = (file: ProcessedFile) => {
+    const hash = hashContent(file.content);
+    exact.set(hash, [...(exact.get(hash) ?? []), file]);
+    if (settings.ignoreWhitespace) {
+      const key = stripWhitespace(file.content);
+      const looseHash = hashContent(key);
+      loose.set(looseHash, [...(loose.get(looseHash) ?? []), { file, key }]);
+    }
+  };
+
+  const result = files.map(file => {
+    // Whitespace-only files would all match each other
+    if (!file.content.trim()) return file;
+
+    const match = findOriginal(file);
+    if (!match) {
+      remember(file);
+      return file;
+    }
+
+    const content = duplicateReference(match.original.path, match.near);
+    const tokens = countTokens(content);
+    if (tokens >= file.tokens) return file;
+
+    const size = textEncoder.encode(content).length;
+    duplicates++;
+    bytesSaved += file.size - size;
+    tokensSaved += file.tokens - tokens;
+    return { ...file, content, size, tokens, duplicateOf: match.original.path, nearDuplicate: match.near || undefined };
+  });
+
+  return { files: result, duplicates, bytesSaved, tokensSaved };
+};
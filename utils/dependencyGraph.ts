@@ -0,0 +1,311 @@
+import { DependencyEdge, DependencySettings, ProcessedFile } from '../types';
+import { compressContent } from './compression';
+import { getExtension } from './textDetection';
+
+/**
+ * Import graph of the extracted files, used to pack only the slice of a
+ * repository reachable from chosen entry points. Imports are found with
+ * regular expressions on comment-free code and resolved to files of the
+ * pack; external packages are ignored.
+ *
+ * TS/JS: relative paths, index files, `.js` → `.ts` rewrites and tsconfig /
+ * jsconfig `baseUrl` and `paths` (including `extends`). Python: absolute and
+ * relative module imports. Go: imports under the module path from go.mod,
+ * where a package is every non-test file of its directory.
+ */
+
+type SourceFile = Pick<ProcessedFile, 'path' | 'content'>;
+
+export const DEFAULT_DEPENDENCY_SETTINGS: DependencySettings = {
+  enabled: false,
+  entries: [],
+  maxDepth: null,
+};
+
+export interface DependencyGraphResult {
+  paths: string[]; // entries and every file reachable within the depth limit
+  edges: DependencyEdge[]; // between included files
+}
+
+const JS_EXTENSIONS = ['ts', 'tsx', 'mts', 'cts', 'js', 'jsx', 'mjs', 'cjs'];
+const RESOLVE_SUFFIXES = ['.ts', '.tsx', '.d.ts', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.json', '.vue', '.svelte'];
+
+const dirname = (path: string): string => {
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? '' : path.slice(0, slash);
+};
+
+// Joins and normalizes '/'-separated segments; returns null when '..' escapes the root
+const joinPath = (...segments: string[]): string | null => {
+  const parts: string[] = [];
+  for (const part of segments.join('/').split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') {
+      if (parts.length === 0) return null;
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts.join('/');
+};
+
+const collectMatches = (code: string, regex: RegExp): string[] => Array.from(code.matchAll(regex), match => match[1]);
+
+const stripComments = (file: SourceFile): string => compressContent(file.path, file.content, 'strip').content;
+
+// --- TypeScript / JavaScript ---
+
+const JS_IMPORT = /(?:\bfrom\s*|\bimport\s*\(?\s*|\brequire\s*\(\s*)['"]([^'"\n]+)['"]/g;
+
+interface PathMapping {
+  paths: Record<string, string[]>;
+  pathsBase: string; // directory the `paths` targets are relative to
+  baseUrl?: string; // directory for bare specifiers
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseJsonWithComments = (file: SourceFile): unknown => {
+  try {
+    return JSON.parse(stripComments(file).replace(/,(\s*[}\]])/g, '$1'));
+  } catch {
+    return null;
+  }
+};
+
+const createTsconfigLoader = (fileIndex: Map<string, SourceFile>) => {
+  const cache = new Map<string, PathMapping | null>();
+
+  const load = (configPath: string, seen: Set<string>): PathMapping | null => {
+    if (cache.has(configPath)) return cache.get(configPath)!;
+    const file = fileIndex.get(configPath);
+    if (!file || seen.has(configPath)) return null;
+    seen.add(configPath);
+
+    const parsed = parseJsonWithComments(file);
+    const config = isRecord(parsed) ? parsed : {};
+    const dir = dirname(configPath);
+    let mapping: PathMapping | null = null;
+
+    // Only relative `extends` can be followed; package configs are not in the archive
+    if (typeof config.extends === 'string' && config.extends.startsWith('.')) {
+      const parentPath = joinPath(dir, config.extends.endsWith('.json') ? config.extends : `${config.extends}.json`);
+      if (parentPath) mapping = load(parentPath, seen);
+    }
+
+    const options = isRecord(config.compilerOptions) ? config.compilerOptions : {};
+    const baseUrl = typeof options.baseUrl === 'string' ? joinPath(dir, options.baseUrl) ?? undefined : mapping?.baseUrl;
+    if (isRecord(options.paths)) {
+      // Targets that are not lists of strings are ignored, as tsc would reject them
+      const paths = Object.fromEntries(Object.entries(options.paths)
+        .map(([pattern, targets]) => [pattern, Array.isArray(targets) ? targets.filter((t): t is string => typeof t === 'string') : []]));
+      mapping = { paths, pathsBase: baseUrl ?? dir, baseUrl };
+    } else if (mapping || baseUrl !== undefined) {
+      mapping = { paths: mapping?.paths ?? {}, pathsBase: mapping?.pathsBase ?? dir, baseUrl };
+    }
+
+    cache.set(configPath, mapping);
+    return mapping;
+  };
+
+  return (configPath: string) => load(configPath, new Set());
+};
+
+const createJsResolver = (fileIndex: Map<string, SourceFile>) => {
+  const configPaths = Array.from(fileIndex.keys())
+    .filter(path => /(?:^|\/)[tj]sconfig\.json$/.test(path))
+    .sort((a, b) => b.length - a.length); // deepest first
+  const loadConfig = createTsconfigLoader(fileIndex);
+
+  const resolveFile = (base: string | null): string | null => {
+    if (base === null) return null;
+    const candidates = [base, ...RESOLVE_SUFFIXES.map(suffix => base + suffix), ...RESOLVE_SUFFIXES.map(suffix => `${base}/index${suffix}`)];
+    // ESM TypeScript imports compiled names ('./a.js' for './a.ts')
+    const jsExt = base.match(/\.(m|c)?jsx?$/);
+    if (jsExt) {
+      const stem = base.slice(0, -jsExt[0].length);
+      candidates.push(`${stem}.${jsExt[1] ?? ''}ts`, `${stem}.${jsExt[1] ?? ''}tsx`);
+    }
+    return candidates.find(candidate => fileIndex.has(candidate)) ?? null;
+  };
+
+  return (from: string, specifier: string): string | null => {
+    if (specifier.startsWith('.') || specifier.startsWith('/')) {
+      return resolveFile(joinPath(dirname(from), specifier));
+    }
+
+    const configPath = configPaths.find(path => {
+      const dir = dirname(path);
+      return dir === '' || from.startsWith(`${dir}/`);
+    });
+    const mapping = configPath ? loadConfig(configPath) : null;
+    if (!mapping) return null;
+
+    for (const [pattern, targets] of Object.entries(mapping.paths)) {
+      const star = pattern.indexOf('*');
+      const prefix = star === -1 ? pattern : pattern.slice(0, star);
+      const suffix = star === -1 ? '' : pattern.slice(star + 1);
+      const matched = star === -1
+        ? specifier === pattern
+        : specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length;
+      if (!matched) continue;
+
+      const wildcard = star === -1 ? '' : specifier.slice(prefix.length, specifier.length - suffix.length);
+      for (const target of targets) {
+        const resolved = resolveFile(joinPath(mapping.pathsBase, target.replace('*', wildcard)));
+        if (resolved) return resolved;
+      }
+    }
+
+    return mapping.baseUrl !== undefined ? resolveFile(joinPath(mapping.baseUrl, specifier)) : null;
+  };
+};
+
+// --- Python ---
+
+const PY_IMPORT = /^[ \t]*import[ \t]+([\w. \t,]+)/gm;
+const PY_FROM_IMPORT = /^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(\([^)]*\)|[^\n]+)/gm;
+
+const pythonImports = (code: string): string[] => {
+  const modules: string[] = [];
+  for (const list of collectMatches(code, PY_IMPORT)) {
+    list.split(',').forEach(item => modules.push(item.trim().split(/\s+/)[0]));
+  }
+  for (const match of code.matchAll(PY_FROM_IMPORT)) {
+    const [, module, names] = match;
+    modules.push(module);
+    // Imported names may be submodules
+    names.replace(/[()]/g, '').split(',').forEach(item => {
+      const name = item.trim().split(/\s+/)[0];
+      if (/^\w+$/.test(name)) modules.push(module.endsWith('.') ? `${module}${name}` : `${module}.${name}`);
+    });
+  }
+  return modules.filter(Boolean);
+};
+
+const createPythonResolver = (fileIndex: Map<string, SourceFile>) => {
+  // Every dotted suffix of a module path maps to its shortest file, so absolute
+  // imports resolve regardless of which directory is the source root
+  const modules = new Map<string, string>();
+  for (const path of fileIndex.keys()) {
+    if (getExtension(path) !== 'py') continue;
+    const parts = path.slice(0, -3).split('/');
+    if (parts[parts.length - 1] === '__init__') parts.pop();
+    for (let i = parts.length - 1; i >= 0; i--) {
+      const key = parts.slice(i).join('.');
+      const known = modules.get(key);
+      if (!known || path.length < known.length) modules.set(key, path);
+    }
+  }
+
+  return (from: string, module: string): string | null => {
+    const level = module.match(/^\.*/)![0].length;
+    if (level === 0) return modules.get(module) ?? null;
+
+    let base: string | null = dirname(from);
+    for (let i = 1; i < level && base !== null; i++) base = base === '' ? null : dirname(base);
+    if (base === null) return null;
+    const target = joinPath(base, ...module.slice(level).split('.').filter(Boolean));
+    if (target === null) return null;
+    return [`${target}.py`, `${target}/__init__.py`].find(candidate => fileIndex.has(candidate)) ?? null;
+  };
+};
+
+// --- Go ---
+
+const GO_IMPORT_BLOCK = /\bimport\s*\(([^)]*)\)/g;
+const GO_IMPORT_SINGLE = /\bimport\s+(?:[\w.]+\s+)?"([^"]+)"/g;
+
+const goImports = (code: string): string[] => [
+  ...collectMatches(code, GO_IMPORT_SINGLE),
+  ...collectMatches(code, GO_IMPORT_BLOCK).flatMap(block => collectMatches(block, /"([^"]+)"/g)),
+];
+
+const createGoResolver = (fileIndex: Map<string, SourceFile>) => {
+  const goModules = Array.from(fileIndex.values())
+    .filter(file => /(?:^|\/)go\.mod$/.test(file.path))
+    .map(file => ({ dir: dirname(file.path), module: file.content.match(/^module\s+(\S+)/m)?.[1] }))
+    .filter((mod): mod is { dir: string, module: string } => !!mod.module);
+
+  const packages = new Map<string, string[]>();
+  for (const path of fileIndex.keys()) {
+    if (!path.endsWith('.go') || path.endsWith('_test.go')) continue;
+    const dir = dirname(path);
+    packages.set(dir, [...(packages.get(dir) ?? []), path]);
+  }
+  const packageFiles = (dir: string): string[] => packages.get(dir) ?? [];
+
+  return {
+    packageFiles,
+    resolve: (importPath: string): string[] => {
+      const mod = goModules.find(m => importPath === m.module || importPath.startsWith(`${m.module}/`));
+      if (!mod) return [];
+      const dir = joinPath(mod.dir, importPath.slice(mod.module.length));
+      return dir === null ? [] : packageFiles(dir);
+    },
+  };
+};
+
+/**
+ * Collects the files reachable from `entries` by following imports, at most
+ * `maxDepth` hops away (null for no limit). Entries themselves are depth 0.
+ */
+export const collectDependencies = (
+  files: SourceFile[],
+  entries: string[],
+  maxDepth: number | null
+): DependencyGraphResult => {
+  const fileIndex = new Map(files.map(f => [f.path, f]));
+  const resolveJs = createJsResolver(fileIndex);
+  const resolvePython = createPythonResolver(fileIndex);
+  const go = createGoResolver(fileIndex);
+
+  const importsOf = (file: SourceFile): string[] => {
+    const ext = getExtension(file.path);
+    if (JS_EXTENSIONS.includes(ext) || ext === 'vue' || ext === 'svelte') {
+      return collectMatches(stripComments(file), JS_IMPORT).map(spec => resolveJs(file.path, spec)).filter((p): p is string => !!p);
+    }
+    if (ext === 'py') {
+      return pythonImports(stripComments(file)).map(module => resolvePython(file.path, module)).filter((p): p is string => !!p);
+    }
+    if (ext === 'go') {
+      return goImports(stripComments(file)).flatMap(go.resolve);
+    }
+    return [];
+  };
+
+  // Files of the same Go package see each other without imports; they come along without an edge
+  const companionsOf = (path: string): string[] => (path.endsWith('.go') ? go.packageFiles(dirname(path)) : []);
+
+  const depth = new Map<string, number>();
+  const edges: DependencyEdge[] = [];
+  const queue = entries.filter(path => fileIndex.has(path));
+  queue.forEach(path => depth.set(path, 0));
+
+  for (let i = 0; i < queue.length; i++) {
+    const path = queue[i];
+    const current = depth.get(path)!;
+
+    companionsOf(path).forEach(companion => {
+      if (!depth.has(companion)) {
+        depth.set(companion, current);
+        queue.push(companion);
+      }
+    });
+    if (maxDepth !== null && current >= maxDepth) continue;
+
+    const targets = new Set(importsOf(fileIndex.get(path)!));
+    targets.delete(path);
+    targets.forEach(target => {
+      edges.push({ from: path, to: target });
+      if (!depth.has(target)) {
+        depth.set(target, current + 1);
+        queue.push(target);
+      }
+    });
+  }
+
+  return { paths: queue, edges };
+};
@@ -0,0 +1,13 @@
+/**
+ * Saves a blob through a temporary link, for content that has no
+ * long-lived object URL.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // The download has started by now; revoking right away can cancel it in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
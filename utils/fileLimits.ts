@@ -0,0 +1,110 @@
+import { FileLimitAction, FileLimitSettings } from '../types';
+import { getExtension } from './textDetection';
+
+/**
+ * Per-file limits: keep a single huge file (bundle, snapshot, data dump)
+ * from taking over the pack, and leave out code nobody wrote by hand.
+ */
+
+export const DEFAULT_FILE_LIMITS: FileLimitSettings = {
+  maxBytes: 512 * 1024,
+  maxLines: 5000,
+  action: 'head-tail',
+  keepLines: 200,
+  excludeGenerated: true,
+};
+
+export const FILE_LIMIT_ACTIONS: FileLimitAction[] = ['skip', 'head', 'head-tail'];
+
+const GENERATED_NAME = /\.min\.[a-z]+$|\.map$/i;
+const GENERATED_MARKERS = ['@generated', 'DO NOT EDIT'];
+// Markers only count in the header, not in code that mentions them
+const HEADER_LENGTH = 1024;
+// Hand-written code averages well under 100 characters per line
+const MINIFIED_LINE_LENGTH = 200;
+const MIN_MINIFIED_SIZE = 1024;
+// Only code and assets get minified; prose (README, docs) often has unwrapped paragraphs
+const MINIFIABLE_EXTENSIONS = new Set(['js', 'mjs', 'cjs', 'jsx', 'ts', 'tsx', 'css', 'scss', 'less', 'html', 'htm', 'json', 'svg', 'xml']);
+
+/**
+ * Returns why the file looks minified or generated, or null.
+ */
+export const detectGenerated = (path: string, content: string): string | null => {
+  const name = path.split('/').pop() ?? path;
+  const nameMatch = name.match(GENERATED_NAME);
+  if (nameMatch) return nameMatch[0];
+
+  const header = content.slice(0, HEADER_LENGTH);
+  const marker = GENERATED_MARKERS.find(m => header.includes(m));
+  if (marker) return marker;
+
+  if (content.length >= MIN_MINIFIED_SIZE && MINIFIABLE_EXTENSIONS.has(getExtension(path))) {
+    const lineCount = content.split('\n').length;
+    const average = Math.round(content.length / lineCount);
+    if (average > MINIFIED_LINE_LENGTH) return `avg line ${average} chars`;
+  }
+  return null;
+};
+
+export type FileLimitResult =
+  | { kind: 'keep', content: string, truncatedLines?: number }
+  | { kind: 'skip', detail: string };
+
+const truncationMarker = (count: number, unit: string) => `… truncated ${count} ${unit} …`;
+
+const isContinuationByte = (byte: number): boolean => (byte & 0xc0) === 0x80;
+
+// Safety net for files whose few lines are still over the byte limit.
+// Cuts are moved to UTF-8 character boundaries, never past the limit.
+const truncateBytes = (content: string, maxBytes: number, action: FileLimitAction): string => {
+  const bytes = new TextEncoder().encode(content);
+  if (bytes.length <= maxBytes) return content;
+
+  const decoder = new TextDecoder();
+  const headLength = action === 'head' ? maxBytes : Math.floor(maxBytes / 2);
+  let headEnd = headLength;
+  while (headEnd > 0 && isContinuationByte(bytes[headEnd])) headEnd--;
+  const head = decoder.decode(bytes.subarray(0, headEnd));
+  if (action === 'head') return `${head}\n${truncationMarker(bytes.length - headEnd, 'bytes')}\n`;
+
+  let tailStart = bytes.length - (maxBytes - headLength);
+  while (tailStart < bytes.length && isContinuationByte(bytes[tailStart])) tailStart++;
+  const marker = truncationMarker(tailStart - headEnd, 'bytes');
+  return `${head}\n${marker}\n${decoder.decode(bytes.subarray(tailStart))}`;
+};
+
+/**
+ * Applies the byte and line limits to a decoded file. Files within both
+ * limits are kept as is; larger ones are skipped or cut down to their
+ * first (and last) `keepLines` lines around an explicit marker.
+ */
+export const applyFileLimits = (content: string, byteLength: number, limits: FileLimitSettings): FileLimitResult => {
+  const lines = content.split('\n');
+  const trailingNewline = content.endsWith('\n');
+  if (trailingNewline) lines.pop();
+
+  const overBytes = limits.maxBytes > 0 && byteLength > limits.maxBytes;
+  const overLines = limits.maxLines > 0 && lines.length > limits.maxLines;
+  if (!overBytes && !overLines) return { kind: 'keep', content };
+
+  if (limits.action === 'skip') {
+    return { kind: 'skip', detail: overLines ? `${lines.length} lines` : `${(byteLength / 1024).toFixed(1)} KB` };
+  }
+
+  const keep = Math.max(1, limits.keepLines);
+  const kept = limits.action === 'head' ? keep : keep * 2;
+  let result = content;
+  let truncatedLines: number | undefined;
+
+  if (lines.length > kept) {
+    truncatedLines = lines.length - kept;
+    const marker = truncationMarker(truncatedLines, 'lines');
+    const head = lines.slice(0, keep).join('\n');
+    result = limits.action === 'head'
+      ? `${head}\n${marker}\n`
+      : `${head}\n${marker}\n${lines.slice(lines.length - keep).join('\n')}${trailingNewline ? '\n' : ''}`;
+  }
+
+  if (limits.maxBytes > 0) result = truncateBytes(result, limits.maxBytes, limits.action);
+  return { kind: 'keep', content: result, truncatedLines: truncatedLines ?? (result === content ? undefined : 0) };
+};
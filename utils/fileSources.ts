@@ -0,0 +1,268 @@
+import { ArchiveIssue, ArchiveLimits, PackSource } from '../types';
+import { isTarArchive, readTarEntries } from './tarReader';
+import { getZipEntryData, readZipDirectory, ZIP_METHOD_DEFLATE, ZIP_METHOD_STORED, ZipEntry } from './zipReader';
+import { ArchiveLimitError, assertArchiveLimits, DEFAULT_ARCHIVE_LIMITS, readLimited, sanitizeEntries } from './archiveSafety';
+import { LocalizedError } from './i18n';
+
+/**
+ * Source adapters. Every input (ZIP or TAR archive, dropped or picked folder) is
+ * turned into a virtual file list: paths plus lazy readers, so the packing
+ * pipeline never needs to know where the bytes come from.
+ */
+
+export interface VirtualFile {
+  path: string; // '/'-separated, relative to the source root
+  size: number; // bytes, as reported by the source
+  read: () => Promise<Uint8Array>;
+}
+
+export interface VirtualFileList {
+  name: string; // used as the repository name
+  files: VirtualFile[];
+  issues?: ArchiveIssue[]; // archive entries that were skipped or renamed
+  skippedDirectories?: string[]; // folders not traversed because of `skipDirectory`
+}
+
+export interface SourceOptions {
+  // Directories for which this returns true are not traversed at all
+  skipDirectory?: (path: string) => boolean;
+  limits?: ArchiveLimits; // archives only
+}
+
+const readFileBytes = async (file: File): Promise<Uint8Array> => new Uint8Array(await file.arrayBuffer());
+
+// Archive contents: a browser File/Blob, or raw bytes (e.g. a Node Buffer)
+export type ArchiveData = Blob | Uint8Array;
+
+const toBytes = async (data: ArchiveData): Promise<Uint8Array> =>
+  data instanceof Uint8Array ? data : new Uint8Array(await data.arrayBuffer());
+
+const decompress = (bytes: Uint8Array, decompressor: DecompressionStream, maxSize: number, path: string): Promise<Uint8Array> =>
+  readLimited(new Blob([bytes]).stream().pipeThrough(decompressor), maxSize, path);
+
+/**
+ * Opens a ZIP archive. `fileName` names the repository (without `.zip`).
+ * Limits are checked against the central directory before anything is
+ * decompressed; encrypted entries, symlinks and unsafe paths are reported
+ * in `issues` instead of being extracted.
+ */
+export const openZipSource = async (
+  data: ArchiveData,
+  fileName: string,
+  limits: ArchiveLimits = DEFAULT_ARCHIVE_LIMITS
+): Promise<VirtualFileList> => {
+  const bytes = await toBytes(data);
+  let entries: ZipEntry[];
+  try {
+    entries = readZipDirectory(bytes);
+  } catch (e) {
+    throw new LocalizedError('error.zipOpen', undefined, { cause: e });
+  }
+
+  const fileEntries = entries.filter(entry => !entry.isDirectory);
+  assertArchiveLimits(fileEntries, limits);
+
+  const issues: ArchiveIssue[] = [];
+  const readable = fileEntries.filter(entry => {
+    if (entry.encrypted) issues.push({ path: entry.path, kind: 'encrypted', size: entry.size });
+    else if (entry.isSymlink) issues.push({ path: entry.path, kind: 'symlink', size: entry.size });
+    else if (entry.method !== ZIP_METHOD_STORED && entry.method !== ZIP_METHOD_DEFLATE) {
+      issues.push({ path: entry.path, kind: 'unsupported', detail: `method ${entry.method}`, size: entry.size });
+    } else return true;
+    return false;
+  });
+
+  const files = sanitizeEntries(readable, limits, issues).map(entry => ({
+    path: entry.path,
+    size: entry.size,
+    read: async () => {
+      const raw = getZipEntryData(bytes, entry);
+      if (entry.method === ZIP_METHOD_STORED) return raw;
+      // Runtimes without deflate-raw fail here, which says nothing about the archive
+      const inflate = new DecompressionStream('deflate-raw');
+      try {
+        return await decompress(raw, inflate, entry.size, entry.path);
+      } catch (e) {
+        if (e instanceof ArchiveLimitError) throw e;
+        throw new LocalizedError('error.zipEntry', { path: entry.path }, { cause: e });
+      }
+    },
+  }));
+
+  // Removes .zip safely from the end of string (case insensitive)
+  return { name: fileName.replace(/\.zip$/i, ''), files, issues };
+};
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+const TAR_EXTENSION = /\.(?:tar\.gz|tgz|tar|gz)$/i;
+
+export const isGzipData = (bytes: Uint8Array): boolean => bytes[0] === GZIP_MAGIC[0] && bytes[1] === GZIP_MAGIC[1];
+
+/**
+ * Opens a tar archive, gzip-compressed or not. A gzip file that does not
+ * contain a tar archive is treated as a single compressed file. Gzip output
+ * is capped at the total size limit while it is decompressed.
+ */
+export const openTarSource = async (
+  data: ArchiveData,
+  fileName: string,
+  limits: ArchiveLimits = DEFAULT_ARCHIVE_LIMITS
+): Promise<VirtualFileList> => {
+  const name = fileName.replace(TAR_EXTENSION, '');
+  let bytes = await toBytes(data);
+
+  try {
+    if (isGzipData(bytes)) {
+      bytes = await decompress(bytes, new DecompressionStream('gzip'), limits.maxTotalSize, fileName);
+      if (!isTarArchive(bytes)) {
+        const content = bytes;
+        return { name, files: [{ path: name, size: content.length, read: async () => content }] };
+      }
+    }
+
+    const entries = readTarEntries(bytes);
+    const regular = entries.filter(entry => entry.linkTarget === undefined).map(entry => ({ ...entry, size: entry.data.length }));
+    assertArchiveLimits(regular, limits);
+
+    const issues: ArchiveIssue[] = entries
+      .filter(entry => entry.linkTarget !== undefined)
+      .map(entry => ({ path: entry.path, kind: 'symlink' as const, detail: entry.linkTarget }));
+
+    const files = sanitizeEntries(regular, limits, issues).map(({ path, data }) => ({
+      path,
+      size: data.length,
+      read: async () => data,
+    }));
+    return { name, files, issues };
+  } catch (e) {
+    if (e instanceof ArchiveLimitError) throw e;
+    throw new LocalizedError('error.tarOpen', undefined, { cause: e });
+  }
+};
+
+/**
+ * Picks the archive adapter by file name; null for unsupported files.
+ */
+export const archiveToSource = (file: File): PackSource | null => {
+  if (/\.zip$/i.test(file.name)) return { kind: 'zip', file };
+  if (TAR_EXTENSION.test(file.name)) return { kind: 'tar', file };
+  return null;
+};
+
+// Value for the uploader's `accept` attribute; browsers only match the last extension
+export const ARCHIVE_ACCEPT = '.zip,.tar,.tgz,.gz';
+
+/**
+ * Files picked with `webkitdirectory` or collected from dropped entries.
+ * Paths already start with the folder name.
+ */
+export const openFileListSource = (
+  name: string,
+  entries: { path: string, file: File }[],
+  skippedDirectories?: string[]
+): VirtualFileList => ({
+  name,
+  files: entries.map(({ path, file }) => ({ path, size: file.size, read: () => readFileBytes(file) })),
+  skippedDirectories,
+});
+
+// File System Access API (Chromium); async iteration is not part of the DOM typings yet
+type IterableDirectoryHandle = FileSystemDirectoryHandle & {
+  values: () => AsyncIterable<FileSystemFileHandle | FileSystemDirectoryHandle>;
+};
+
+/**
+ * Walks a directory handle from `showDirectoryPicker`. Files are opened only
+ * when read, so excluded trees such as node_modules cost nothing.
+ */
+export const openDirectorySource = async (
+  root: FileSystemDirectoryHandle,
+  options: SourceOptions = {}
+): Promise<VirtualFileList> => {
+  const files: VirtualFile[] = [];
+  const skippedDirectories: string[] = [];
+
+  const walk = async (dir: FileSystemDirectoryHandle, dirPath: string) => {
+    for await (const handle of (dir as IterableDirectoryHandle).values()) {
+      const path = `${dirPath}/${handle.name}`;
+      if (handle.kind === 'directory') {
+        if (options.skipDirectory?.(path)) {
+          skippedDirectories.push(path);
+          continue;
+        }
+        await walk(handle as FileSystemDirectoryHandle, path);
+      } else {
+        const file = await (handle as FileSystemFileHandle).getFile();
+        files.push({ path, size: file.size, read: () => readFileBytes(file) });
+      }
+    }
+  };
+
+  await walk(root, root.name);
+  return { name: root.name, files, skippedDirectories };
+};
+
+export const openSource = (source: PackSource, options: SourceOptions = {}): Promise<VirtualFileList> => {
+  switch (source.kind) {
+    case 'zip':
+      return openZipSource(source.file, source.file.name, options.limits);
+    case 'tar':
+      return openTarSource(source.file, source.file.name, options.limits);
+    case 'files':
+      return Promise.resolve(openFileListSource(source.name, source.files, source.skippedDirectories));
+    case 'directory':
+      return openDirectorySource(source.handle, options);
+  }
+};
+
+/**
+ * Builds a source from an `<input webkitdirectory>` selection.
+ */
+export const fileListToSource = (fileList: FileList): PackSource => {
+  const files = Array.from(fileList).map(file => ({ path: file.webkitRelativePath || file.name, file }));
+  return { kind: 'files', name: files[0]?.path.split('/')[0] ?? 'folder', files };
+};
+
+const readAllEntries = async (dir: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = dir.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns results in batches until an empty one
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+/**
+ * Resolves a dropped directory (DataTransferItem.webkitGetAsEntry) into a
+ * file-list source. Entries cannot be sent to a worker, so files are
+ * collected here and only their File objects are passed on.
+ */
+export const directoryEntryToSource = async (
+  root: FileSystemDirectoryEntry,
+  options: SourceOptions = {}
+): Promise<PackSource> => {
+  const files: { path: string, file: File }[] = [];
+  const skippedDirectories: string[] = [];
+
+  const walk = async (dir: FileSystemDirectoryEntry, dirPath: string) => {
+    for (const entry of await readAllEntries(dir)) {
+      const path = `${dirPath}/${entry.name}`;
+      if (entry.isDirectory) {
+        if (options.skipDirectory?.(path)) {
+          skippedDirectories.push(path);
+          continue;
+        }
+        await walk(entry as FileSystemDirectoryEntry, path);
+      } else {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        files.push({ path, file });
+      }
+    }
+  };
+
+  await walk(root, root.name);
+  return { kind: 'files', name: root.name, files, skippedDirectories };
+};
@@ -0,0 +1,47 @@
+import { FilterSettings } from '../types';
+import { createGitignoreMatcher } from './gitignore';
+
+// Files packed by default (one gitignore-style glob per entry)
+export const DEFAULT_INCLUDE_PATTERNS = [
+  '*.js', '*.jsx', '*.ts', '*.tsx', '*.json', '*.css', '*.scss', '*.html', '*.md', '*.txt',
+  '*.py', '*.java', '*.c', '*.cpp', '*.h', '*.cs', '*.go', '*.rs', '*.php', '*.rb', '*.sh',
+  '*.yaml', '*.yml', '*.xml', '*.sql', '*.gitignore', '*.env', '*.dockerfile', '*.toml', '*.gradle', '*.properties',
+  '*.ipynb', '*.csv', '*.tsv', '*.svg',
+  'Dockerfile', 'Makefile', 'LICENSE', 'Jenkinsfile', 'Vagrantfile'
+];
+
+// Directories and files skipped by default
+export const DEFAULT_EXCLUDE_PATTERNS = [
+  '.git/', 'node_modules/', 'dist/', 'build/', 'coverage/', '.idea/', '.vscode/', '__pycache__/', 'bin/', 'obj/',
+  'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', '.DS_Store', 'thumbs.db'
+];
+
+export const DEFAULT_FILTER_SETTINGS: FilterSettings = {
+  include: DEFAULT_INCLUDE_PATTERNS,
+  exclude: DEFAULT_EXCLUDE_PATTERNS,
+  detectText: true,
+};
+
+/**
+ * Splits textarea input into a clean list of patterns (one per line, comments allowed).
+ */
+export const parsePatternList = (text: string): string[] =>
+  text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+
+/**
+ * Compiles user filter settings into predicates. Both lists use .gitignore
+ * syntax and are matched case-insensitively: a file is a packing candidate
+ * when it matches an include pattern and no exclude pattern.
+ */
+export const createPathFilter = (settings: FilterSettings) => {
+  const isIncluded = createGitignoreMatcher([{ baseDir: '', content: settings.include.join('\n') }], { ignoreCase: true });
+  const isExcluded = createGitignoreMatcher([{ baseDir: '', content: settings.exclude.join('\n') }], { ignoreCase: true });
+
+  return {
+    isExcluded,
+    isIncluded: (path: string): boolean => isIncluded(path) && !isExcluded(path),
+  };
+};
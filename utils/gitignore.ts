@@ -0,0 +1,199 @@
+/**
+ * Minimal .gitignore implementation following the semantics described in
+ * `git help gitignore`: comments, escapes, negation, anchored and
+ * directory-only patterns, and `*`, `?`, `[...]` and `**` globs.
+ */
+
+export interface GitignoreRule {
+  pattern: string;
+  negate: boolean;
+  dirOnly: boolean;
+  regex: RegExp;
+}
+
+export interface GitignoreOptions {
+  // Match case-insensitively (git itself honors core.ignoreCase the same way)
+  ignoreCase?: boolean;
+}
+
+export interface GitignoreSource {
+  // Directory containing the .gitignore, without trailing slash ('' for the root)
+  baseDir: string;
+  content: string;
+}
+
+const escapeRegex = (ch: string): string => ch.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+/**
+ * Converts a single glob (already stripped of '!', leading and trailing '/')
+ * into a regular expression source string.
+ */
+const globToRegexSource = (glob: string): string => {
+  let src = '';
+  let i = 0;
+
+  while (i < glob.length) {
+    const ch = glob[i];
+
+    if (ch === '\\' && i + 1 < glob.length) {
+      src += escapeRegex(glob[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        const atSegmentStart = i === 0 || glob[i - 1] === '/';
+        const next = glob[i + 2];
+        if (atSegmentStart && next === '/') {
+          // "**/" - zero or more directories
+          src += '(?:.*/)?';
+          i += 3;
+          continue;
+        }
+        if (atSegmentStart && next === undefined) {
+          // trailing "/**" - everything inside
+          src += '.*';
+          i += 2;
+          continue;
+        }
+        // Other consecutive asterisks behave like a regular '*'
+        while (glob[i] === '*') i++;
+        src += '[^/]*';
+        continue;
+      }
+      src += '[^/]*';
+      i++;
+      continue;
+    }
+
+    if (ch === '?') {
+      src += '[^/]';
+      i++;
+      continue;
+    }
+
+    if (ch === '[') {
+      const close = glob.indexOf(']', i + 2);
+      if (close !== -1) {
+        let body = glob.slice(i + 1, close);
+        let negated = false;
+        if (body[0] === '!' || body[0] === '^') {
+          negated = true;
+          body = body.slice(1);
+        }
+        body = body.replace(/\\/g, '\\\\').replace(/]/g, '\\]');
+        src += negated ? `[^/${body}]` : `[${body}]`;
+        i = close + 1;
+        continue;
+      }
+    }
+
+    src += escapeRegex(ch);
+    i++;
+  }
+
+  return src;
+};
+
+/**
+ * Parses the contents of a .gitignore file into an ordered list of rules.
+ */
+export const parseGitignore = (content: string, options: GitignoreOptions = {}): GitignoreRule[] => {
+  const flags = options.ignoreCase ? 'i' : '';
+  const rules: GitignoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped with a backslash
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    let negate = false;
+    if (line.startsWith('!')) {
+      negate = true;
+      line = line.slice(1);
+    } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+      line = line.slice(1);
+    }
+
+    let dirOnly = false;
+    if (line.endsWith('/')) {
+      dirOnly = true;
+      line = line.slice(0, -1);
+    }
+    if (!line) continue;
+
+    // A separator at the beginning or middle anchors the pattern to the .gitignore location
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) line = line.slice(1);
+
+    const body = globToRegexSource(line);
+    const regex = new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`, flags);
+
+    rules.push({ pattern: rawLine.trim(), negate, dirOnly, regex });
+  }
+
+  return rules;
+};
+
+/**
+ * Builds a matcher from every .gitignore found in a tree. The returned
+ * function expects paths relative to the archive root, without trailing slash.
+ *
+ * As in git, a path is ignored when any of its parent directories is ignored,
+ * and a negated pattern cannot re-include a file inside an excluded directory.
+ */
+export const createGitignoreMatcher = (
+  sources: GitignoreSource[],
+  options: GitignoreOptions = {}
+): ((path: string, isDir?: boolean) => boolean) => {
+  const scopes = sources
+    .map(source => ({
+      baseDir: source.baseDir.replace(/\/+$/, ''),
+      rules: parseGitignore(source.content, options),
+    }))
+    .filter(scope => scope.rules.length > 0)
+    // Shallower files first so that deeper ones take precedence
+    .sort((a, b) => (a.baseDir ? a.baseDir.split('/').length : 0) - (b.baseDir ? b.baseDir.split('/').length : 0));
+
+  if (scopes.length === 0) return () => false;
+
+  const dirCache = new Map<string, boolean>();
+
+  const matchesSelf = (path: string, isDir: boolean): boolean => {
+    let ignored = false;
+    for (const scope of scopes) {
+      let relative: string;
+      if (!scope.baseDir) {
+        relative = path;
+      } else if (path.startsWith(scope.baseDir + '/')) {
+        relative = path.slice(scope.baseDir.length + 1);
+      } else {
+        continue;
+      }
+
+      for (const rule of scope.rules) {
+        if (rule.dirOnly && !isDir) continue;
+        if (rule.regex.test(relative)) ignored = !rule.negate;
+      }
+    }
+    return ignored;
+  };
+
+  const isDirIgnored = (dir: string): boolean => {
+    const cached = dirCache.get(dir);
+    if (cached !== undefined) return cached;
+
+    const slash = dir.lastIndexOf('/');
+    const result = (slash !== -1 && isDirIgnored(dir.slice(0, slash))) || matchesSelf(dir, true);
+    dirCache.set(dir, result);
+    return result;
+  };
+
+  return (path: string, isDir = false): boolean => {
+    const clean = path.replace(/\/+$/, '');
+    const slash = clean.lastIndexOf('/');
+    if (slash !== -1 && isDirIgnored(clean.slice(0, slash))) return true;
+    return isDir ? isDirIgnored(clean) : matchesSelf(clean, false);
+  };
+};
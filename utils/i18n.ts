@@ -0,0 +1,112 @@
+import { en } from '../locales/en';
+import { ru } from '../locales/ru';
+
+/**
+ * Message catalogs and locale-aware formatting. The pipeline never builds
+ * user-facing text itself: progress and errors carry a message key and its
+ * parameters, and the UI (or the CLI) renders them in the reader's locale.
+ *
+ * Catalog texts use `{name}` placeholders; `{name, size}` formats a byte
+ * count. An entry may instead hold plural forms, picked by the `count` parameter.
+ */
+
+export type Locale = 'en' | 'ru';
+
+export type MessageKey = keyof typeof en;
+
+export type MessageText = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+
+export type Catalog = Record<MessageKey, MessageText>;
+
+// A nested message is rendered first, e.g. a format name inside a progress message
+export type MessageParams = Record<string, string | number | LocalizedMessage>;
+
+export interface LocalizedMessage {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export const LOCALES: { id: Locale, name: string }[] = [
+  { id: 'en', name: 'English' },
+  { id: 'ru', name: 'Русский' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const CATALOGS: Record<Locale, Catalog> = { en, ru };
+
+/**
+ * Picks the first supported language from a preference list such as
+ * `navigator.languages` or the `LC_ALL` / `LANG` variables (`ru_RU.UTF-8`).
+ */
+export const detectLocale = (languages: readonly (string | undefined)[]): Locale => {
+  for (const language of languages) {
+    const base = language?.toLowerCase().split(/[-_.]/)[0];
+    const locale = LOCALES.find(l => l.id === base);
+    if (locale) return locale.id;
+  }
+  return DEFAULT_LOCALE;
+};
+
+export const formatNumber = (locale: Locale, value: number, fractionDigits = 0): string =>
+  new Intl.NumberFormat(locale, { maximumFractionDigits: fractionDigits }).format(value);
+
+const SIZE_UNITS: { key: MessageKey, bytes: number }[] = [
+  { key: 'unit.gb', bytes: 1024 ** 3 },
+  { key: 'unit.mb', bytes: 1024 ** 2 },
+  { key: 'unit.kb', bytes: 1024 },
+];
+
+/**
+ * Byte counts in KB, MB or GB, whichever keeps the number readable.
+ */
+export const formatSize = (locale: Locale, bytes: number): string => {
+  const unit = SIZE_UNITS.find(u => bytes >= u.bytes) ?? SIZE_UNITS[SIZE_UNITS.length - 1];
+  return `${formatNumber(locale, bytes / unit.bytes, 1)} ${translate(locale, unit.key)}`;
+};
+
+const formatParam = (locale: Locale, value: MessageParams[string], style?: string): string => {
+  if (typeof value === 'object') return translate(locale, value.key, value.params);
+  if (typeof value === 'string') return value;
+  return style === 'size' ? formatSize(locale, value) : formatNumber(locale, value);
+};
+
+/**
+ * Renders a message. Keys missing from a catalog fall back to English;
+ * placeholders without a parameter are left as they are.
+ */
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+  const entry = CATALOGS[locale][key] ?? CATALOGS[DEFAULT_LOCALE][key] ?? key;
+  const text = typeof entry === 'string'
+    ? entry
+    : entry[new Intl.PluralRules(locale).select(Number(params.count))] ?? entry.other;
+
+  return text.replace(/\{(\w+)(?:,\s*(\w+))?\}/g, (match, name: string, style?: string) =>
+    Object.prototype.hasOwnProperty.call(params, name) ? formatParam(locale, params[name], style) : match
+  );
+};
+
+/**
+ * An error the UI can show in any language. `message` holds the English
+ * text for logs and library callers.
+ */
+export class LocalizedError extends Error {
+  readonly key: MessageKey;
+  readonly params?: MessageParams;
+
+  constructor(key: MessageKey, params?: MessageParams, options?: ErrorOptions) {
+    super(translate(DEFAULT_LOCALE, key, params), options);
+    this.name = 'LocalizedError';
+    this.key = key;
+    this.params = params;
+  }
+}
+
+/**
+ * The message to show for a caught error. Errors that were not raised by
+ * the app (browser and runtime errors) keep their own text.
+ */
+export const describeError = (error: unknown, fallback: MessageKey = 'error.unknown'): LocalizedMessage => {
+  if (error instanceof LocalizedError) return { key: error.key, params: error.params };
+  return error instanceof Error && error.message ? { key: 'error.unexpected', params: { message: error.message } } : { key: fallback };
+};
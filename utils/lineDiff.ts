@@ -0,0 +1,145 @@
+/**
+ * Line-based diff (Myers' O(ND) algorithm) rendered as a unified diff.
+ */
+
+interface DiffOp {
+  type: ' ' | '-' | '+';
+  line: string;
+}
+
+// Above this many edits the trace gets too large; the change is shown as a full replacement
+const MAX_EDIT_DISTANCE = 2000;
+
+const myersDiff = (a: string[], b: string[]): DiffOp[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v for k in [-d-1, d+1] before step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(a, b, trace);
+    }
+  }
+
+  return null;
+};
+
+const backtrack = (a: string[], b: string[], trace: Int32Array[]): DiffOp[] => {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: ' ', line: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) ops.push({ type: '+', line: b[--y] });
+      else ops.push({ type: '-', line: a[--x] });
+    }
+  }
+
+  return ops.reverse();
+};
+
+/**
+ * Diffs two line arrays. Common prefix and suffix are matched up front,
+ * which keeps typical edits cheap.
+ */
+export const diffLines = (a: string[], b: string[]): DiffOp[] => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const middle = myersDiff(middleA, middleB) ?? [
+    ...middleA.map(line => ({ type: '-' as const, line })),
+    ...middleB.map(line => ({ type: '+' as const, line })),
+  ];
+
+  return [
+    ...a.slice(0, start).map(line => ({ type: ' ' as const, line })),
+    ...middle,
+    ...a.slice(endA).map(line => ({ type: ' ' as const, line })),
+  ];
+};
+
+const splitLines = (text: string): string[] => {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+const hunkRange = (start: number, length: number): string =>
+  // An empty range points at the line before it
+  length === 0 ? `${start},0` : length === 1 ? `${start + 1}` : `${start + 1},${length}`;
+
+/**
+ * Renders a unified diff (`--- a/… +++ b/…` with `@@` hunks) with
+ * `context` unchanged lines around each change. Returns '' when equal.
+ */
+export const createUnifiedDiff = (oldPath: string, newPath: string, oldText: string, newText: string, context = 3): string => {
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const changed = ops.map((op, i) => (op.type === ' ' ? -1 : i)).filter(i => i !== -1);
+  if (changed.length === 0) return '';
+
+  // Line numbers before each op
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  ops.forEach(op => {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (op.type !== '+') oldLine++;
+    if (op.type !== '-') newLine++;
+  });
+
+  // Changes closer than twice the context share a hunk
+  const hunks: [number, number][] = [];
+  changed.forEach(i => {
+    const last = hunks[hunks.length - 1];
+    if (last && i - last[1] <= 2 * context + 1) last[1] = i;
+    else hunks.push([i, i]);
+  });
+
+  let out = `--- a/${oldPath}\n+++ b/${newPath}\n`;
+  for (const [first, lastChange] of hunks) {
+    const start = Math.max(0, first - context);
+    const end = Math.min(ops.length, lastChange + context + 1);
+    const slice = ops.slice(start, end);
+    const oldLength = slice.filter(op => op.type !== '+').length;
+    const newLength = slice.filter(op => op.type !== '-').length;
+    out += `@@ -${hunkRange(oldLineAt[start], oldLength)} +${hunkRange(newLineAt[start], newLength)} @@\n`;
+    out += slice.map(op => `${op.type}${op.line}\n`).join('');
+  }
+
+  return out;
+};
@@ -0,0 +1,73 @@
+import { ManifestEntry, ManifestReason, ManifestSummaryRow, ProcessedFile } from '../types';
+
+/**
+ * Packing manifest: every entry of the source with the reason it was or
+ * was not packed. Extraction records the file-level reasons; the final
+ * selection and the secret review are applied when the pack is generated.
+ */
+
+// Order of the summary rows, from packed to dropped
+export const MANIFEST_REASONS: ManifestReason[] = [
+  'included',
+  'gitignored',
+  'excluded-dir',
+  'excluded-file',
+  'not-included',
+  'binary',
+  'not-text',
+  'generated',
+  'deselected',
+  'secret',
+  'encrypted',
+  'symlink',
+  'unsafe-path',
+  'duplicate',
+  'too-large',
+  'unsupported',
+];
+
+/**
+ * Applies the final file selection to the extraction manifest: extracted
+ * files that were not selected become 'deselected', selected ones that did
+ * not make it into the pack were excluded during the secret review.
+ */
+export const finalizeManifest = (
+  manifest: ManifestEntry[],
+  selected: ProcessedFile[],
+  packed: ProcessedFile[]
+): ManifestEntry[] => {
+  const selectedPaths = new Set(selected.map(f => f.path));
+  // Diff packs may hold two entries for one path
+  const packedTokens = new Map<string, number>();
+  packed.forEach(f => packedTokens.set(f.path, (packedTokens.get(f.path) ?? 0) + f.tokens));
+
+  return manifest.map(entry => {
+    if (entry.reason !== 'included') return entry;
+    if (!selectedPaths.has(entry.path)) return { ...entry, reason: 'deselected' };
+    const tokens = packedTokens.get(entry.path);
+    return tokens === undefined ? { ...entry, reason: 'secret' } : { ...entry, tokens };
+  });
+};
+
+export const summarizeManifest = (manifest: ManifestEntry[]): ManifestSummaryRow[] => {
+  const rows = new Map<ManifestReason, ManifestSummaryRow>();
+  manifest.forEach(entry => {
+    const row = rows.get(entry.reason) ?? { reason: entry.reason, count: 0, size: 0 };
+    row.count++;
+    row.size += entry.size;
+    rows.set(entry.reason, row);
+  });
+  return MANIFEST_REASONS.filter(reason => rows.has(reason)).map(reason => rows.get(reason)!);
+};
+
+const csvField = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const manifestToCsv = (manifest: ManifestEntry[]): string =>
+  ['path,reason,size,tokens,detail', ...manifest.map(e =>
+    [e.path, e.reason, e.size, e.tokens, e.detail].map(csvField).join(',')
+  )].join('\n') + '\n';
+
+export const manifestToJson = (manifest: ManifestEntry[]): string => `${JSON.stringify(manifest, null, 2)}\n`;
@@ -0,0 +1,389 @@
+import { ChangeStatus, DependencyEdge, ManifestSummaryRow, OutputFormatId, OverviewRow, ProcessedFile, ProjectOverview, SecretFinding } from '../types';
+
+/**
+ * Output renderers. A pack is rendered as header + file blocks joined by
+ * `fileSeparator` + footer, which lets the splitter measure and assemble
+ * parts without knowing the concrete format.
+ */
+
+export interface PackHeader {
+  repoName: string;
+  tree?: string; // full project structure
+  index?: string[]; // compact list of the files in this part (used instead of the tree)
+  part?: { number: number, total: number };
+  redactions?: SecretFinding[]; // secrets replaced with placeholders in the contents
+  dependencies?: DependencyEdge[]; // set for packs built from entry points
+  changes?: { path: string, status: ChangeStatus }[]; // set for diff packs
+  report?: ManifestSummaryRow[]; // packing summary, rendered at the end of the last part
+  overview?: ProjectOverview; // languages, directories and key files, in the first part
+  preamble?: string; // prompt text before the document, in the first part
+  postamble?: string; // prompt text after the document, in the last part
+}
+
+// 1-based inclusive line range, set when a file was split across parts
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+export interface OutputFormat {
+  id: OutputFormatId;
+  extension: string;
+  mimeType: string;
+  renderHeader: (header: PackHeader) => string;
+  renderFile: (file: ProcessedFile, range?: LineRange) => string;
+  fileSeparator: string;
+  renderFooter: (header: PackHeader) => string;
+}
+
+const partLabel = (header: PackHeader): string =>
+  header.part ? ` (part ${header.part.number}/${header.part.total})` : '';
+
+const rangeLabel = (range?: LineRange): string =>
+  range ? ` (lines ${range.start}–${range.end})` : '';
+
+const COMPRESSION_LABELS = { full: '', strip: ' (comments stripped)', outline: ' (outline)' };
+
+const compressionLabel = (file: ProcessedFile): string => COMPRESSION_LABELS[file.compression ?? 'full'];
+
+const changeLabel = (file: ProcessedFile): string => {
+  if (!file.change) return '';
+  if (file.change === 'modified') return file.isDiff ? ' (modified, diff)' : ' (modified, new version)';
+  return ` (${file.change})`;
+};
+
+const truncationLabel = (file: ProcessedFile): string => (file.truncatedLines === undefined ? '' : ' (truncated)');
+
+const handlerLabel = (file: ProcessedFile): string => (file.handler ? ` (${file.handler.id}: ${file.handler.note})` : '');
+
+const fileLabels = (file: ProcessedFile, range?: LineRange): string =>
+  `${rangeLabel(range)}${changeLabel(file)}${handlerLabel(file)}${compressionLabel(file)}${truncationLabel(file)}`;
+
+const changeLines = (header: PackHeader): string[] =>
+  (header.changes ?? []).map(change => `${change.status}: ${change.path}`);
+
+const dependencyLines = (header: PackHeader): string[] =>
+  (header.dependencies ?? []).map(edge => `${edge.from} → ${edge.to}`);
+
+const formatKb = (size: number): string => `${(size / 1024).toFixed(1)} KB`;
+
+const isFirstPart = (header: PackHeader): boolean => !header.part || header.part.number === 1;
+const isLastPart = (header: PackHeader): boolean => !header.part || header.part.number === header.part.total;
+
+// The report closes the document, so split packs carry it only in the last part
+const footerReport = (header: PackHeader): ManifestSummaryRow[] =>
+  header.report && isLastPart(header) ? header.report : [];
+
+// The prompt wraps the whole pack: it opens the first part and closes the last one
+const preambleText = (header: PackHeader): string => (header.preamble && isFirstPart(header) ? header.preamble : '');
+const postambleText = (header: PackHeader): string => (header.postamble && isLastPart(header) ? header.postamble : '');
+
+const headerOverview = (header: PackHeader): ProjectOverview | undefined =>
+  header.overview && isFirstPart(header) ? header.overview : undefined;
+
+const overviewRowLine = (row: OverviewRow): string =>
+  `${row.name}: ${row.files} ${row.files === 1 ? 'file' : 'files'}, ${formatKb(row.size)}, ${row.tokens} tokens`;
+
+// Overview as plain lines, shared by the Markdown and plain text renderers
+const overviewLines = (overview: ProjectOverview, bullet: string, code: (text: string) => string): string[] => [
+  'Languages:',
+  ...overview.languages.map(row => `${bullet}${overviewRowLine(row)}`),
+  '',
+  'Directories:',
+  ...overview.directories.map(row => `${bullet}${overviewRowLine({ ...row, name: code(row.name) })}`),
+  '',
+  'Largest files:',
+  ...overview.largestFiles.map(file => `${bullet}${code(file.path)}: ${formatKb(file.size)}, ${file.tokens} tokens`),
+  ...(overview.keyFiles.length > 0 ? ['', 'Key files:'] : []),
+  ...overview.keyFiles.flatMap(key => [
+    `${bullet}${code(key.path)} (${key.kind})${key.name ? `: ${key.name}` : ''}`,
+    ...key.sections.map(section => `  ${bullet}${section.title}: ${section.items.join(', ')}`),
+  ]),
+];
+
+// Prompt text of Markdown and plain text packs stands apart from the document
+const preambleBlock = (header: PackHeader): string => {
+  const text = preambleText(header);
+  return text ? `${text}\n\n` : '';
+};
+const postambleBlock = (header: PackHeader, separated: boolean): string => {
+  const text = postambleText(header);
+  return text ? `${separated ? '\n' : ''}${text}\n` : '';
+};
+
+const redactionLines = (header: PackHeader): string[] =>
+  (header.redactions ?? []).map(r => `${r.path}:${r.line} — ${r.ruleLabel} → [REDACTED:${r.ruleId}]`);
+
+export const markdownFormat: OutputFormat = {
+  id: 'markdown',
+  extension: 'md',
+  mimeType: 'text/markdown;charset=utf-8',
+  renderHeader: header => {
+    let md = `${preambleBlock(header)}# Project: ${header.repoName}${partLabel(header)}\n\n`;
+
+    const overview = headerOverview(header);
+    if (overview) {
+      md += `## 🧭 Overview\n\n${overviewLines(overview, '- ', text => `\`${text}\``).join('\n')}\n\n`;
+    }
+    if (header.tree !== undefined) {
+      md += `## 📂 Project Structure\n\n\`\`\`\n${header.tree}\n\`\`\`\n\n`;
+    }
+    if (header.index) {
+      md += `## 📑 Files in this part\n\n${header.index.map(e => `- ${e}`).join('\n')}\n\n`;
+    }
+    if (header.changes?.length) {
+      md += `## 🔀 Changes\n\n${changeLines(header).map(l => `- ${l}`).join('\n')}\n\n`;
+    }
+    if (header.dependencies?.length) {
+      md += `## 🔗 Dependencies\n\n${dependencyLines(header).map(l => `- ${l}`).join('\n')}\n\n`;
+    }
+    if (header.redactions?.length) {
+      md += `## 🔒 Redacted Secrets\n\n${redactionLines(header).map(l => `- ${l}`).join('\n')}\n\n`;
+    }
+
+    md += `## 💻 File Contents\n\n`;
+    return md;
+  },
+  renderFile: (file, range) => {
+    // A copy is only a reference to the file printed earlier, outside a fence
+    if (file.duplicateOf) return `### ${file.path}${fileLabels(file, range)}\n${file.content}\n\n`;
+
+    // Generate a code fence that is longer than any fence inside the content
+    let fenceLength = 3;
+    const backticks = file.content.match(/`+/g);
+    if (backticks) {
+      for (const match of backticks) {
+        if (match.length >= fenceLength) {
+          fenceLength = match.length + 1;
+        }
+      }
+    }
+    const fence = '`'.repeat(fenceLength);
+
+    let md = `### ${file.path}${fileLabels(file, range)}\n`;
+    md += `${fence}${file.extension}\n`;
+    md += file.content;
+    md += `\n${fence}\n\n`;
+    return md;
+  },
+  fileSeparator: '',
+  renderFooter: header => {
+    const rows = footerReport(header);
+    const table = rows.map(row => `| ${row.reason} | ${row.count} | ${formatKb(row.size)} |`).join('\n');
+    const report = rows.length > 0 ? `## 📋 Packing Report\n\n| Reason | Files | Size |\n| --- | ---: | ---: |\n${table}\n` : '';
+    return `${report}${postambleBlock(header, rows.length > 0)}`;
+  },
+};
+
+const escapeXmlAttribute = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const escapeXmlText = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Characters XML 1.0 does not allow anywhere, not even in CDATA
+const XML_INVALID_CHARACTERS = /[\x00-\x08\x0B\x0C\x0E-\x1F\uFFFE\uFFFF]/g;
+
+// File contents stay readable in CDATA; a `]]>` inside is split across two sections
+const xmlCdata = (value: string): string =>
+  `<![CDATA[${value.replace(XML_INVALID_CHARACTERS, '\uFFFD').split(']]>').join(']]]]><![CDATA[>')}]]>`;
+
+// Prompt texts are elements of the root, so the document stays well-formed
+const xmlPromptElement = (tag: string, text: string): string => (text ? `<${tag}>\n${xmlCdata(text)}\n</${tag}>\n` : '');
+
+// XML-style tags as expected by LLM tooling; file contents are wrapped in CDATA
+export const xmlFormat: OutputFormat = {
+  id: 'xml',
+  extension: 'xml',
+  mimeType: 'application/xml;charset=utf-8',
+  renderHeader: header => {
+    const part = header.part ? ` part="${header.part.number}" parts="${header.part.total}"` : '';
+    let xml = `<project name="${escapeXmlAttribute(header.repoName)}"${part}>\n${xmlPromptElement('preamble', preambleText(header))}`;
+
+    const overview = headerOverview(header);
+    if (overview) {
+      const rows = (tag: string, list: OverviewRow[]) => list
+        .map(row => `<${tag} name="${escapeXmlAttribute(row.name)}" files="${row.files}" bytes="${row.size}" tokens="${row.tokens}" />`)
+        .join('\n');
+      const largest = overview.largestFiles
+        .map(file => `<file path="${escapeXmlAttribute(file.path)}" bytes="${file.size}" tokens="${file.tokens}" />`)
+        .join('\n');
+      const keyFiles = overview.keyFiles.map(key => {
+        const name = key.name ? ` name="${escapeXmlAttribute(key.name)}"` : '';
+        const sections = key.sections
+          .map(section => `<section title="${escapeXmlAttribute(section.title)}">${escapeXmlText(section.items.join(', '))}</section>`)
+          .join('\n');
+        return `<key_file path="${escapeXmlAttribute(key.path)}" kind="${escapeXmlAttribute(key.kind)}"${name}>\n${sections}\n</key_file>`;
+      }).join('\n');
+      xml += `<overview>\n<languages>\n${rows('language', overview.languages)}\n</languages>\n`;
+      xml += `<directories>\n${rows('directory', overview.directories)}\n</directories>\n`;
+      xml += `<largest_files>\n${largest}\n</largest_files>\n`;
+      if (keyFiles) xml += `<key_files>\n${keyFiles}\n</key_files>\n`;
+      xml += `</overview>\n`;
+    }
+    if (header.tree !== undefined) {
+      xml += `<project_structure>\n${escapeXmlText(header.tree)}\n</project_structure>\n`;
+    }
+    if (header.index) {
+      xml += `<part_index>\n${escapeXmlText(header.index.join('\n'))}\n</part_index>\n`;
+    }
+    if (header.changes?.length) {
+      xml += `<changes>\n${header.changes
+        .map(change => `<change path="${escapeXmlAttribute(change.path)}" status="${change.status}" />`)
+        .join('\n')}\n</changes>\n`;
+    }
+    if (header.dependencies?.length) {
+      xml += `<dependencies>\n${header.dependencies
+        .map(edge => `<dependency from="${escapeXmlAttribute(edge.from)}" to="${escapeXmlAttribute(edge.to)}" />`)
+        .join('\n')}\n</dependencies>\n`;
+    }
+    if (header.redactions?.length) {
+      xml += `<redactions>\n${header.redactions
+        .map(r => `<redaction path="${escapeXmlAttribute(r.path)}" line="${r.line}" rule="${r.ruleId}" />`)
+        .join('\n')}\n</redactions>\n`;
+    }
+
+    xml += `<files>\n`;
+    return xml;
+  },
+  renderFile: (file, range) => {
+    const lines = range ? ` lines="${range.start}-${range.end}"` : '';
+    const compression = file.compression ? ` compression="${file.compression}"` : '';
+    const change = file.change ? ` change="${file.change}"${file.isDiff ? ' content="diff"' : ''}` : '';
+    const handler = file.handler ? ` handler="${file.handler.id}" handler_note="${escapeXmlAttribute(file.handler.note)}"` : '';
+    const truncated = file.truncatedLines === undefined ? '' : ` truncated_lines="${file.truncatedLines}"`;
+    if (file.duplicateOf) {
+      const whitespace = file.nearDuplicate ? ' whitespace_differs="true"' : '';
+      return `<file path="${escapeXmlAttribute(file.path)}"${change} duplicate_of="${escapeXmlAttribute(file.duplicateOf)}"${whitespace} />\n`;
+    }
+    return `<file path="${escapeXmlAttribute(file.path)}"${lines}${change}${handler}${compression}${truncated}>\n${xmlCdata(file.content)}\n</file>\n`;
+  },
+  fileSeparator: '',
+  renderFooter: header => {
+    const rows = footerReport(header);
+    const report = rows.length > 0
+      ? `<packing_report>\n${rows.map(row => `<entry reason="${row.reason}" count="${row.count}" bytes="${row.size}" />`).join('\n')}\n</packing_report>\n`
+      : '';
+    return `</files>\n${report}${xmlPromptElement('postamble', postambleText(header))}</project>\n`;
+  },
+};
+
+export const jsonFormat: OutputFormat = {
+  id: 'json',
+  extension: 'json',
+  mimeType: 'application/json;charset=utf-8',
+  renderHeader: header => {
+    const meta: Record<string, unknown> = {};
+    const preamble = preambleText(header);
+    if (preamble) meta.preamble = preamble;
+    meta.project = header.repoName;
+    if (header.part) meta.part = header.part;
+    const overview = headerOverview(header);
+    if (overview) meta.overview = overview;
+    if (header.tree !== undefined) meta.tree = header.tree;
+    if (header.index) meta.index = header.index;
+    if (header.changes?.length) meta.changes = header.changes;
+    if (header.dependencies?.length) meta.dependencies = header.dependencies;
+    if (header.redactions?.length) {
+      meta.redactions = header.redactions.map(r => ({ path: r.path, line: r.line, rule: r.ruleId }));
+    }
+
+    // Open the object and leave the "files" array for the file blocks
+    return `${JSON.stringify(meta, null, 2).slice(0, -2)},\n  "files": [\n`;
+  },
+  renderFile: (file, range) => {
+    const entry: Record<string, unknown> = {
+      path: file.path,
+      extension: file.extension,
+      size: file.size,
+      tokens: file.tokens,
+    };
+    if (range) entry.lines = range;
+    if (file.change) entry.change = file.change;
+    if (file.isDiff) entry.diff = true;
+    if (file.handler) entry.handler = file.handler;
+    if (file.compression) entry.compression = file.compression;
+    if (file.truncatedLines !== undefined) entry.truncatedLines = file.truncatedLines;
+    if (file.duplicateOf) {
+      entry.duplicateOf = file.duplicateOf;
+      if (file.nearDuplicate) entry.whitespaceDiffers = true;
+    } else {
+      entry.content = file.content;
+    }
+    return `    ${JSON.stringify(entry)}`;
+  },
+  fileSeparator: ',\n',
+  renderFooter: header => {
+    const rows = footerReport(header);
+    const report = rows.length > 0 ? `,\n  "report": ${JSON.stringify(rows)}` : '';
+    const postamble = postambleText(header);
+    return `\n  ]${report}${postamble ? `,\n  "postamble": ${JSON.stringify(postamble)}` : ''}\n}\n`;
+  },
+};
+
+const PLAIN_SEPARATOR = '='.repeat(64);
+
+export const plainTextFormat: OutputFormat = {
+  id: 'plain',
+  extension: 'txt',
+  mimeType: 'text/plain;charset=utf-8',
+  renderHeader: header => {
+    let txt = `${preambleBlock(header)}Project: ${header.repoName}${partLabel(header)}\n\n`;
+
+    const overview = headerOverview(header);
+    if (overview) {
+      txt += `${PLAIN_SEPARATOR}\nOverview\n${PLAIN_SEPARATOR}\n${overviewLines(overview, '- ', text => text).join('\n')}\n\n`;
+    }
+    if (header.tree !== undefined) {
+      txt += `${PLAIN_SEPARATOR}\nProject Structure\n${PLAIN_SEPARATOR}\n${header.tree}\n\n`;
+    }
+    if (header.index) {
+      txt += `${PLAIN_SEPARATOR}\nFiles in this part\n${PLAIN_SEPARATOR}\n${header.index.join('\n')}\n\n`;
+    }
+    if (header.changes?.length) {
+      txt += `${PLAIN_SEPARATOR}\nChanges\n${PLAIN_SEPARATOR}\n${changeLines(header).join('\n')}\n\n`;
+    }
+    if (header.dependencies?.length) {
+      txt += `${PLAIN_SEPARATOR}\nDependencies\n${PLAIN_SEPARATOR}\n${dependencyLines(header).join('\n')}\n\n`;
+    }
+    if (header.redactions?.length) {
+      txt += `${PLAIN_SEPARATOR}\nRedacted Secrets\n${PLAIN_SEPARATOR}\n${redactionLines(header).join('\n')}\n\n`;
+    }
+
+    return txt;
+  },
+  renderFile: (file, range) =>
+    `${PLAIN_SEPARATOR}\nFile: ${file.path}${fileLabels(file, range)}\n${PLAIN_SEPARATOR}\n${file.content}\n\n`,
+  fileSeparator: '',
+  renderFooter: header => {
+    const rows = footerReport(header);
+    const lines = rows.map(row => `${row.reason}: ${row.count} files, ${formatKb(row.size)}`);
+    const report = rows.length > 0 ? `${PLAIN_SEPARATOR}\nPacking Report\n${PLAIN_SEPARATOR}\n${lines.join('\n')}\n` : '';
+    return `${report}${postambleBlock(header, rows.length > 0)}`;
+  },
+};
+
+export const OUTPUT_FORMATS: OutputFormat[] = [markdownFormat, xmlFormat, jsonFormat, plainTextFormat];
+
+export const getOutputFormat = (id: OutputFormatId): OutputFormat =>
+  OUTPUT_FORMATS.find(f => f.id === id) ?? markdownFormat;
+
+/**
+ * Renders a complete document as a list of chunks (header, one chunk per file
+ * and separator, footer) so large packs never need one giant string.
+ */
+export const renderPackChunks = (format: OutputFormat, header: PackHeader, files: ProcessedFile[]): string[] => {
+  const chunks = [format.renderHeader(header)];
+  files.forEach((file, index) => {
+    if (index > 0 && format.fileSeparator) chunks.push(format.fileSeparator);
+    chunks.push(format.renderFile(file));
+  });
+  chunks.push(format.renderFooter(header));
+  return chunks;
+};
+
+/**
+ * Renders a complete document (or one part of a split pack) in the given format.
+ */
+export const renderPack = (format: OutputFormat, header: PackHeader, files: ProcessedFile[]): string =>
+  renderPackChunks(format, header, files).join('');
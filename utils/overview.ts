@@ -0,0 +1,280 @@
+import { KeyFileSummary, OverviewRow, ProcessedFile, ProjectOverview } from '../types';
+import { getExtension } from './textDetection';
+
+/**
+ * Project overview for the top of the pack: where the code is, in which
+ * languages, and what the package manifests say about the project.
+ */
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: 'TypeScript', tsx: 'TypeScript', mts: 'TypeScript', cts: 'TypeScript',
+  js: 'JavaScript', jsx: 'JavaScript', mjs: 'JavaScript', cjs: 'JavaScript',
+  py: 'Python', pyi: 'Python', ipynb: 'Jupyter Notebook',
+  go: 'Go', rs: 'Rust', java: 'Java', kt: 'Kotlin', kts: 'Kotlin', scala: 'Scala', groovy: 'Groovy',
+  c: 'C', h: 'C', cpp: 'C++', cc: 'C++', cxx: 'C++', hpp: 'C++', hh: 'C++', cs: 'C#', fs: 'F#',
+  swift: 'Swift', m: 'Objective-C', mm: 'Objective-C', dart: 'Dart',
+  rb: 'Ruby', php: 'PHP', pl: 'Perl', lua: 'Lua', r: 'R', jl: 'Julia',
+  ex: 'Elixir', exs: 'Elixir', erl: 'Erlang', hs: 'Haskell', clj: 'Clojure', ml: 'OCaml', zig: 'Zig',
+  sh: 'Shell', bash: 'Shell', zsh: 'Shell', ps1: 'PowerShell', bat: 'Batch',
+  html: 'HTML', htm: 'HTML', css: 'CSS', scss: 'SCSS', sass: 'SCSS', less: 'Less',
+  vue: 'Vue', svelte: 'Svelte', astro: 'Astro',
+  json: 'JSON', yaml: 'YAML', yml: 'YAML', toml: 'TOML', xml: 'XML', ini: 'INI',
+  md: 'Markdown', mdx: 'Markdown', rst: 'reStructuredText', txt: 'Text',
+  sql: 'SQL', graphql: 'GraphQL', gql: 'GraphQL', proto: 'Protocol Buffers',
+  tf: 'Terraform', hcl: 'HCL', gradle: 'Gradle', cmake: 'CMake', svg: 'SVG', csv: 'CSV', tsv: 'TSV',
+};
+
+const LANGUAGE_BY_FILENAME: Record<string, string> = {
+  dockerfile: 'Dockerfile',
+  'go.mod': 'Go Module',
+  'go.sum': 'Go Module',
+  makefile: 'Makefile',
+  'cmakelists.txt': 'CMake',
+};
+
+const README_NAME = /^readme(\.[a-z0-9]+)?$/i;
+const DOCKERFILE_NAME = /^dockerfile(\..+)?$|\.dockerfile$/i;
+const MANIFEST_NAMES = ['package.json', 'pyproject.toml', 'go.mod', 'Cargo.toml'];
+
+// Rows per table and items per manifest section
+const MAX_ROWS = 10;
+const MAX_ITEMS = 30;
+const MAX_KEY_FILES = 10;
+
+const baseName = (path: string) => path.split('/').pop() ?? path;
+
+export const getLanguage = (path: string): string => {
+  const name = baseName(path).toLowerCase();
+  if (LANGUAGE_BY_FILENAME[name]) return LANGUAGE_BY_FILENAME[name];
+  if (DOCKERFILE_NAME.test(name)) return 'Dockerfile';
+  const extension = getExtension(path);
+  return LANGUAGE_BY_EXTENSION[extension] ?? (extension ? `.${extension}` : 'Other');
+};
+
+const isKeyFileName = (name: string): boolean => MANIFEST_NAMES.includes(name) || DOCKERFILE_NAME.test(name);
+
+/**
+ * Puts the root README first and the root manifests right after it; the
+ * order of the other files is kept.
+ */
+export const orderKeyFilesFirst = <T extends { path: string }>(files: T[]): T[] => {
+  const rank = (path: string) => {
+    if (path.includes('/')) return 2;
+    if (README_NAME.test(path)) return 0;
+    return isKeyFileName(path) ? 1 : 2;
+  };
+  return files
+    .map((file, index) => ({ file, index, rank: rank(file.path) }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map(entry => entry.file);
+};
+
+const limitItems = (items: string[]): string[] =>
+  items.length > MAX_ITEMS ? [...items.slice(0, MAX_ITEMS), `… and ${items.length - MAX_ITEMS} more`] : items;
+
+const section = (title: string, items: string[]) => (items.length > 0 ? [{ title, items: limitItems(items) }] : []);
+
+// Minimal TOML reader: [tables], key = value and arrays of strings, enough for manifests
+type TomlTable = Record<string, string | string[]>;
+
+const stripTomlComment = (line: string): string => {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#') {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+};
+
+const unquote = (value: string): string => value.trim().replace(/^(["'])(.*)\1$/, '$2');
+
+const parseToml = (content: string): Map<string, TomlTable> => {
+  const tables = new Map<string, TomlTable>([['', {}]]);
+  let current = tables.get('')!;
+  const lines = content.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = stripTomlComment(lines[i]).trim();
+    const header = line.match(/^\[\[?\s*([^\]]+?)\s*\]\]?$/);
+    if (header) {
+      const name = header[1].replace(/["']/g, '');
+      current = tables.get(name) ?? {};
+      tables.set(name, current);
+      continue;
+    }
+
+    const pair = line.match(/^("[^"]+"|'[^']+'|[\w.-]+)\s*=\s*(.*)$/);
+    if (!pair) continue;
+    let value = pair[2];
+    if (value.startsWith('[')) {
+      // Multi-line arrays run until the closing bracket
+      while (!value.trimEnd().endsWith(']') && i + 1 < lines.length) value += ` ${stripTomlComment(lines[++i]).trim()}`;
+      current[unquote(pair[1])] = [...value.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'/g)].map(m => m[1] ?? m[2]);
+    } else {
+      current[unquote(pair[1])] = value.startsWith('{') ? value : unquote(value);
+    }
+  }
+  return tables;
+};
+
+const tomlString = (value: string | string[] | undefined): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+// `serde = "1.0"` or `serde = { version = "1.0", features = [...] }`
+const tomlDependencies = (table: TomlTable | undefined): string[] =>
+  Object.entries(table ?? {}).map(([name, value]) => {
+    const version = typeof value === 'string' ? (value.startsWith('{') ? value.match(/version\s*=\s*"([^"]*)"/)?.[1] : value) : undefined;
+    return version ? `${name} ${version}` : name;
+  });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const summarizePackageJson = (path: string, content: string): KeyFileSummary | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return null;
+  }
+  if (!isRecord(data)) return null;
+  const entries = (value: unknown, join: string) =>
+    isRecord(value) ? Object.entries(value).map(([key, v]) => `${key}${join}${v}`) : [];
+  return {
+    path,
+    kind: 'npm',
+    name: typeof data.name === 'string' ? `${data.name}${typeof data.version === 'string' ? `@${data.version}` : ''}` : undefined,
+    sections: [
+      ...section('Scripts', entries(data.scripts, ': ')),
+      ...section('Dependencies', entries(data.dependencies, ' ')),
+      ...section('Dev dependencies', entries(data.devDependencies, ' ')),
+      ...section('Peer dependencies', entries(data.peerDependencies, ' ')),
+    ],
+  };
+};
+
+const summarizePyproject = (path: string, content: string): KeyFileSummary => {
+  const toml = parseToml(content);
+  const project = toml.get('project');
+  const poetry = toml.get('tool.poetry');
+  const dependencies = project?.dependencies;
+  return {
+    path,
+    kind: poetry && !project ? 'Poetry' : 'Python',
+    name: tomlString(project?.name) ?? tomlString(poetry?.name),
+    sections: [
+      ...section('Scripts', Object.entries({ ...toml.get('project.scripts'), ...toml.get('tool.poetry.scripts') }).map(([k, v]) => `${k}: ${v}`)),
+      ...section('Dependencies', Array.isArray(dependencies) ? dependencies : tomlDependencies(toml.get('tool.poetry.dependencies'))),
+      ...section('Dev dependencies', tomlDependencies(toml.get('tool.poetry.group.dev.dependencies') ?? toml.get('tool.poetry.dev-dependencies'))),
+    ],
+  };
+};
+
+const summarizeCargo = (path: string, content: string): KeyFileSummary => {
+  const toml = parseToml(content);
+  const pkg = toml.get('package');
+  const workspace = toml.get('workspace');
+  return {
+    path,
+    kind: 'Cargo',
+    name: tomlString(pkg?.name) && `${pkg!.name}${tomlString(pkg?.version) ? ` ${pkg!.version}` : ''}`,
+    sections: [
+      ...section('Workspace members', Array.isArray(workspace?.members) ? workspace!.members as string[] : []),
+      ...section('Dependencies', tomlDependencies(toml.get('dependencies'))),
+      ...section('Dev dependencies', tomlDependencies(toml.get('dev-dependencies'))),
+    ],
+  };
+};
+
+const summarizeGoMod = (path: string, content: string): KeyFileSummary => {
+  const lines = content.split(/\r?\n/).map(line => line.replace(/\/\/.*$/, '').trim());
+  const requires: string[] = [];
+  let inBlock = false;
+  lines.forEach(line => {
+    if (inBlock) {
+      if (line === ')') inBlock = false;
+      else if (line) requires.push(line);
+    } else if (/^require\s*\($/.test(line)) {
+      inBlock = true;
+    } else if (line.startsWith('require ')) {
+      requires.push(line.slice('require '.length).trim());
+    }
+  });
+  const goVersion = lines.find(line => line.startsWith('go '))?.slice(3);
+  return {
+    path,
+    kind: 'Go module',
+    name: lines.find(line => line.startsWith('module '))?.slice('module '.length).trim(),
+    sections: [...section('Go', goVersion ? [goVersion] : []), ...section('Dependencies', requires)],
+  };
+};
+
+const summarizeDockerfile = (path: string, content: string): KeyFileSummary => {
+  // Continuation lines belong to the instruction above
+  const instructions = content.replace(/\\\r?\n/g, ' ').split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+  const argsOf = (keyword: string) =>
+    instructions.filter(line => line.toUpperCase().startsWith(`${keyword} `)).map(line => line.slice(keyword.length).trim());
+  // Only the last CMD and ENTRYPOINT take effect
+  const command = [...argsOf('ENTRYPOINT').slice(-1), ...argsOf('CMD').slice(-1)];
+  return {
+    path,
+    kind: 'Docker',
+    sections: [
+      ...section('Base images', argsOf('FROM')),
+      ...section('Exposed ports', argsOf('EXPOSE')),
+      ...section('Command', command),
+    ],
+  };
+};
+
+const summarizeKeyFile = (file: ProcessedFile): KeyFileSummary | null => {
+  const name = baseName(file.path);
+  switch (name) {
+    case 'package.json': return summarizePackageJson(file.path, file.content);
+    case 'pyproject.toml': return summarizePyproject(file.path, file.content);
+    case 'Cargo.toml': return summarizeCargo(file.path, file.content);
+    case 'go.mod': return summarizeGoMod(file.path, file.content);
+    default: return DOCKERFILE_NAME.test(name) ? summarizeDockerfile(file.path, file.content) : null;
+  }
+};
+
+const groupRows = (files: ProcessedFile[], keyOf: (file: ProcessedFile) => string): OverviewRow[] => {
+  const rows = new Map<string, OverviewRow>();
+  files.forEach(file => {
+    const name = keyOf(file);
+    const row = rows.get(name) ?? { name, files: 0, size: 0, tokens: 0 };
+    row.files++;
+    row.size += file.size;
+    row.tokens += file.tokens;
+    rows.set(name, row);
+  });
+  return [...rows.values()].sort((a, b) => b.tokens - a.tokens || a.name.localeCompare(b.name)).slice(0, MAX_ROWS);
+};
+
+const orderByDepth = (files: ProcessedFile[]): ProcessedFile[] =>
+  [...files].sort((a, b) => a.path.split('/').length - b.path.split('/').length || a.path.localeCompare(b.path));
+
+/**
+ * Builds the overview. Statistics come from the packed files; manifests
+ * are read from `sources`, their full (uncompressed) versions.
+ */
+export const buildOverview = (files: ProcessedFile[], sources: ProcessedFile[] = files): ProjectOverview => ({
+  languages: groupRows(files, file => getLanguage(file.path)),
+  directories: groupRows(files, file => (file.path.includes('/') ? `${file.path.split('/')[0]}/` : '.')),
+  largestFiles: [...files]
+    .sort((a, b) => b.tokens - a.tokens || a.path.localeCompare(b.path))
+    .slice(0, MAX_ROWS)
+    .map(({ path, size, tokens }) => ({ path, size, tokens })),
+  // Shallow manifests first: the root one describes the project
+  keyFiles: orderByDepth(sources.filter(file => isKeyFileName(baseName(file.path))))
+    .map(summarizeKeyFile)
+    .filter((summary): summary is KeyFileSummary => summary !== null)
+    .slice(0, MAX_KEY_FILES),
+});
@@ -0,0 +1,216 @@
+import { ChangeStatus, CompressionSettings, DedupSettings, DependencyEdge, DiffSettings, ManifestEntry, OutputFormatId, ProcessedFile, ProcessingStats, SecretAction, SecretFinding, SplitSettings, TokenizerId } from '../types';
+import { computeStats, generateTreeString } from './zipProcessor';
+import { getOutputFormat, renderPackChunks } from './outputFormats';
+import { bundlePartsAsZip, splitPackContent } from './splitter';
+import { applySecretActions, scanForSecrets } from './secretScanner';
+import { compressFiles } from './compression';
+import { buildDiffFiles, CHANGE_LABELS } from './archiveDiff';
+import { loadTokenizer } from './tokenizer';
+import { finalizeManifest, summarizeManifest } from './manifest';
+import { formatPromptDate, renderPromptTemplate } from './promptTemplates';
+import { buildOverview, orderKeyFilesFirst } from './overview';
+import { LocalizedMessage } from './i18n';
+import { deduplicateFiles } from './dedup';
+
+export interface GeneratePackInput {
+  repoName: string;
+  files: ProcessedFile[]; // files selected for the pack
+  secretFindings: SecretFinding[];
+  secretActions: Record<string, SecretAction>;
+  format: OutputFormatId;
+  compression: CompressionSettings;
+  split: SplitSettings;
+  dependencies?: DependencyEdge[]; // import edges when packing from entry points
+  diff?: {
+    base: ProcessedFile[]; // old versions of the selected modified and removed files
+    statuses: Record<string, ChangeStatus>;
+    settings: DiffSettings;
+  };
+  manifest?: ManifestEntry[]; // extraction manifest of the whole source
+  appendReport?: boolean; // end the pack with a summary of the manifest
+  prompt?: { preamble: string, postamble: string }; // template texts, variables not yet filled in
+  overview?: boolean; // open the pack with languages, directories and key files
+  dedup?: DedupSettings; // print files with the same content once; off when omitted
+  rootFolder?: string; // folder that holds the whole source, left out of every path
+  tokenizer: TokenizerId;
+}
+
+export interface GeneratedPart {
+  fileName: string;
+  chunks: string[]; // empty when the output was streamed through `onChunk`
+  size: number; // bytes
+  tokenCount: number;
+}
+
+export interface GeneratedPack {
+  parts: GeneratedPart[];
+  files: ProcessedFile[]; // packed entries with their final content, for the result viewer
+  manifest?: ManifestEntry[]; // with the final selection and secret review applied
+  stats: ProcessingStats;
+  isSplit: boolean;
+}
+
+export interface MaterializedPack {
+  parts: (Omit<GeneratedPart, 'chunks'> & { blob?: Blob })[]; // no blobs when streamed to disk
+  files: ProcessedFile[];
+  manifest?: ManifestEntry[];
+  bundle?: Blob; // ZIP of all parts for split packs
+  stats: ProcessingStats;
+  isSplit: boolean;
+}
+
+// Receives output chunks in order; awaited, so it may write to a stream
+export type ChunkSink = (partIndex: number, chunk: string) => void | Promise<void>;
+
+/**
+ * Applies secret decisions, renders the pack in the chosen format (optionally
+ * split into parts) and measures the result. Output is produced as chunks;
+ * with `onChunk` they are handed over one by one instead of being retained.
+ */
+export const generatePack = async (
+  input: GeneratePackInput,
+  onProgress: (percent: number, message: LocalizedMessage) => void,
+  onChunk?: ChunkSink
+): Promise<GeneratedPack> => {
+  const format = getOutputFormat(input.format);
+  const tokenizer = await loadTokenizer(input.tokenizer);
+
+  onProgress(92, { key: 'progress.applyingSecrets' });
+  const { files: reviewedFiles, redacted } = applySecretActions(input.files, input.secretFindings, input.secretActions, tokenizer.countTokens);
+
+  let contentFiles = reviewedFiles;
+  let changes: { path: string, status: ChangeStatus }[] | undefined;
+  if (input.diff) {
+    onProgress(93, { key: 'progress.buildingChanges' });
+    const { base, statuses, settings } = input.diff;
+    // Old versions are not reviewed, so their secrets are always redacted
+    const oldFiles = applySecretActions(base, base.flatMap(file => scanForSecrets(file)), {}, tokenizer.countTokens).files;
+    contentFiles = buildDiffFiles(reviewedFiles, oldFiles, statuses, settings, tokenizer.countTokens);
+    changes = reviewedFiles.map(file => ({ path: file.path, status: statuses[file.path] }));
+  }
+
+  // Compression runs after redaction, since finding offsets refer to the original content
+  onProgress(94, { key: 'progress.compressing' });
+  const compressed = compressFiles(contentFiles, input.compression, tokenizer.countTokens);
+  const tokensSaved = compressed.tokensSaved;
+
+  // Files excluded because of secrets drop out of the dependency list too
+  const packed = new Set(compressed.files.map(f => f.path));
+  const fullManifest = input.manifest && finalizeManifest(input.manifest, input.files, compressed.files);
+
+  // The shared top-level folder (`repo-main/`) only costs tokens in every path and heading
+  const root = input.rootFolder;
+  const strip = (path: string) => (root && path.startsWith(`${root}/`) ? path.slice(root.length + 1) : path);
+  const stripPaths = <T extends { path: string }>(items: T[]): T[] => (root ? items.map(item => ({ ...item, path: strip(item.path) })) : items);
+
+  const orderedFiles = orderKeyFilesFirst(stripPaths(compressed.files));
+  changes = changes && stripPaths(changes);
+  const redactions = stripPaths(redacted);
+  const dependencies = input.dependencies
+    ?.filter(edge => packed.has(edge.from) && packed.has(edge.to))
+    .map(edge => ({ ...edge, from: strip(edge.from), to: strip(edge.to) }));
+  // Manifests are summarized from their full text, before compression and diffing
+  const overview = input.overview ? buildOverview(orderedFiles, stripPaths(reviewedFiles)) : undefined;
+
+  // The first copy in print order keeps its content, so key files win
+  const dedup = deduplicateFiles(orderedFiles, input.dedup ?? { enabled: false, ignoreWhitespace: false }, tokenizer.countTokens);
+  const files = dedup.files;
+  const duplicates = new Map(files.filter(f => f.duplicateOf).map(f => [f.path, f]));
+  const manifest = fullManifest && stripPaths(fullManifest).map(entry => {
+    const duplicate = entry.reason === 'included' ? duplicates.get(entry.path) : undefined;
+    if (!duplicate) return entry;
+    const note = `${duplicate.nearDuplicate ? 'whitespace variant of' : 'identical to'} ${duplicate.duplicateOf}`;
+    return { ...entry, tokens: duplicate.tokens, detail: entry.detail ? `${entry.detail}; ${note}` : note };
+  });
+
+  // Removed files of a diff pack have no content but still appear in the tree
+  const duplicateLabels = Object.fromEntries([...duplicates.values()]
+    .map(f => [f.path, `[${f.nearDuplicate ? 'whitespace variant' : 'duplicate'} of ${f.duplicateOf}]`]));
+  const tree = changes
+    ? generateTreeString(
+      changes.map(c => c.path),
+      Object.fromEntries(changes.map(c => [c.path, [CHANGE_LABELS[c.status], duplicateLabels[c.path]].filter(Boolean).join(' ')]))
+    )
+    : generateTreeString(files.map(f => f.path), duplicateLabels);
+  const report = manifest && input.appendReport ? summarizeManifest(manifest) : undefined;
+  const variables = {
+    repoName: input.repoName,
+    fileCount: files.length,
+    tokenCount: files.reduce((sum, f) => sum + f.tokens, 0),
+    tree,
+    date: formatPromptDate(new Date()),
+  };
+  const header = {
+    repoName: input.repoName,
+    tree,
+    redactions,
+    dependencies,
+    changes,
+    report,
+    overview,
+    preamble: input.prompt && renderPromptTemplate(input.prompt.preamble, variables).trim(),
+    postamble: input.prompt && renderPromptTemplate(input.prompt.postamble, variables).trim(),
+  };
+
+  onProgress(95, { key: 'progress.buildingPack', params: { format: { key: `format.${format.id}` } } });
+
+  let partChunks: string[][];
+  if (input.split.enabled) {
+    const textEncoder = new TextEncoder();
+    const measure = input.split.unit === 'tokens'
+      ? tokenizer.countTokens
+      : (text: string) => textEncoder.encode(text).length;
+    partChunks = splitPackContent(format, header, files, input.split, measure);
+  } else {
+    partChunks = [renderPackChunks(format, header, files)];
+  }
+
+  const textEncoder = new TextEncoder();
+  const parts: GeneratedPart[] = [];
+
+  for (const [index, chunks] of partChunks.entries()) {
+    const fileName = input.split.enabled
+      ? `${input.repoName}_part${index + 1}.${format.extension}`
+      : `${input.repoName}_${input.diff ? 'diff' : 'packed'}.${format.extension}`;
+
+    // Count the whole document so headings, fences and the tree are included
+    let size = 0;
+    let tokenCount = 0;
+    for (const chunk of chunks) {
+      size += textEncoder.encode(chunk).length;
+      tokenCount += tokenizer.countTokens(chunk);
+      if (onChunk) await onChunk(index, chunk);
+    }
+
+    parts.push({ fileName, chunks: onChunk ? [] : chunks, size, tokenCount });
+    // Let go of streamed chunks as soon as they are written
+    partChunks[index] = [];
+  }
+
+  return {
+    parts,
+    files,
+    manifest,
+    stats: {
+      ...computeStats(files),
+      tokenCount: parts.reduce((sum, p) => sum + p.tokenCount, 0),
+      tokensSaved,
+      generatedFiles: manifest?.filter(entry => entry.reason === 'generated').length || undefined,
+      dedup: dedup.duplicates > 0
+        ? { files: dedup.duplicates, bytesSaved: dedup.bytesSaved, tokensSaved: dedup.tokensSaved }
+        : undefined,
+    },
+    isSplit: input.split.enabled,
+  };
+};
+
+/**
+ * Turns generated chunk lists into Blobs (plus a ZIP bundle for split packs)
+ * so the document is never joined into one giant string.
+ */
+export const materializePack = async (pack: GeneratedPack, format: OutputFormatId): Promise<MaterializedPack> => {
+  const { mimeType } = getOutputFormat(format);
+  const bundle = pack.isSplit ? await bundlePartsAsZip(pack.parts) : undefined;
+  const parts = pack.parts.map(({ chunks, ...part }) => ({ ...part, blob: new Blob(chunks, { type: mimeType }) }));
+  return { ...pack, parts, bundle };
+};
@@ -0,0 +1,39 @@
+import { PackHistoryEntry } from '../types';
+import { createRecordId, deleteRecords, getAllRecords, putRecords } from './storage';
+
+/**
+ * Recently generated packs, kept in IndexedDB so they survive `reset` and
+ * page reloads. The oldest packs are evicted once the history exceeds
+ * MAX_HISTORY_ENTRIES packs or MAX_HISTORY_SIZE bytes.
+ */
+
+export const MAX_HISTORY_ENTRIES = 20;
+export const MAX_HISTORY_SIZE = 100 * 1024 * 1024;
+
+export const listHistory = async (): Promise<PackHistoryEntry[]> =>
+  (await getAllRecords<PackHistoryEntry>('history')).sort((a, b) => b.createdAt - a.createdAt);
+
+// Newest first: keeps entries while both caps allow, drops the rest
+const selectEvicted = (entries: PackHistoryEntry[]): string[] => {
+  let total = 0;
+  return entries
+    .filter((entry, index) => {
+      total += entry.size;
+      return index >= MAX_HISTORY_ENTRIES || total > MAX_HISTORY_SIZE;
+    })
+    .map(entry => entry.id);
+};
+
+/**
+ * Stores a pack and evicts the oldest ones over the caps. Returns false
+ * when the pack alone is larger than the whole history may be.
+ */
+export const addToHistory = async (entry: Omit<PackHistoryEntry, 'id' | 'createdAt'>): Promise<boolean> => {
+  if (entry.size > MAX_HISTORY_SIZE) return false;
+  await putRecords('history', [{ ...entry, id: createRecordId(), createdAt: Date.now() }]);
+  const evicted = selectEvicted(await listHistory());
+  if (evicted.length > 0) await deleteRecords('history', evicted);
+  return true;
+};
+
+export const deleteFromHistory = (ids: string[]): Promise<void> => deleteRecords('history', ids);
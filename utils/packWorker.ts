@@ -0,0 +1,73 @@
+import { PackSource, ProcessedFile, ProcessOptions, TokenizerId } from '../types';
+import { processSource } from './zipProcessor';
+import { generatePack, GeneratePackInput, materializePack } from './packGenerator';
+import { countFileTokens, loadTokenizer } from './tokenizer';
+import { LocalizedError, LocalizedMessage, MessageKey, MessageParams } from './i18n';
+
+/**
+ * Dedicated worker running the packing pipeline off the main thread.
+ * One worker handles one job; cancellation terminates it (see workerClient).
+ */
+
+export type PackWorkerRequest =
+  | { type: 'extract', source: PackSource, options: ProcessOptions }
+  | { type: 'generate', input: GeneratePackInput, fileHandle?: FileSystemFileHandle }
+  | { type: 'recount', files: ProcessedFile[], tokenizer: TokenizerId };
+
+export type PackWorkerResponse =
+  | { type: 'progress', percent: number, message: LocalizedMessage }
+  | { type: 'result', result: unknown }
+  | { type: 'error', name: string, message: string, key?: MessageKey, params?: MessageParams };
+
+// The project is type-checked against the DOM lib, so only the bits of the worker scope we use are typed
+const ctx = self as unknown as {
+  postMessage: (message: PackWorkerResponse) => void;
+  onmessage: ((event: MessageEvent<PackWorkerRequest>) => void) | null;
+};
+
+const onProgress = (percent: number, message: LocalizedMessage) => ctx.postMessage({ type: 'progress', percent, message });
+
+const handleGenerate = async (input: GeneratePackInput, fileHandle?: FileSystemFileHandle) => {
+  if (!fileHandle) {
+    return materializePack(await generatePack(input, onProgress), input.format);
+  }
+
+  // Stream straight to disk; only single-document output is supported here
+  const writable = await fileHandle.createWritable();
+  try {
+    const pack = await generatePack(input, onProgress, (_part, chunk) => writable.write(chunk));
+    await writable.close();
+    return pack;
+  } catch (error) {
+    await writable.abort();
+    throw error;
+  }
+};
+
+ctx.onmessage = async (event: MessageEvent<PackWorkerRequest>) => {
+  const request = event.data;
+  try {
+    let result: unknown;
+    switch (request.type) {
+      case 'extract':
+        result = await processSource(request.source, onProgress, undefined, request.options);
+        break;
+      case 'generate':
+        result = await handleGenerate(request.input, request.fileHandle);
+        break;
+      case 'recount':
+        result = countFileTokens(request.files, await loadTokenizer(request.tokenizer));
+        break;
+    }
+    ctx.postMessage({ type: 'result', result });
+  } catch (error) {
+    // Localized errors keep their key, so the page can show them in its own language
+    if (error instanceof LocalizedError) {
+      ctx.postMessage({ type: 'error', name: error.name, message: error.message, key: error.key, params: error.params });
+    } else if (error instanceof Error) {
+      ctx.postMessage({ type: 'error', name: error.name, message: error.message || String(error) });
+    } else {
+      ctx.postMessage({ type: 'error', name: 'Error', message: String(error) });
+    }
+  }
+};
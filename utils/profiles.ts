@@ -0,0 +1,173 @@
+import { ProfileSettings, PromptTemplate, SettingsProfile } from '../types';
+import { DEFAULT_FILTER_SETTINGS } from './filters';
+import { DEFAULT_ARCHIVE_LIMITS } from './archiveSafety';
+import { DEFAULT_FILE_LIMITS, FILE_LIMIT_ACTIONS } from './fileLimits';
+import { DEFAULT_CONTENT_HANDLERS, NOTEBOOK_OUTPUT_MODES, SVG_MODES } from './contentHandlers';
+import { DEFAULT_DEDUP_SETTINGS } from './dedup';
+import { DEFAULT_MODEL_ID } from './tokenizer';
+import { COMPRESSION_LEVELS, DEFAULT_COMPRESSION_SETTINGS } from './compression';
+import { OUTPUT_FORMATS } from './outputFormats';
+import { DEFAULT_SPLIT_SETTINGS } from './splitter';
+import { createRecordId, deleteRecords, getAllRecords, putRecords } from './storage';
+import { LocalizedError } from './i18n';
+
+/**
+ * Named settings profiles ("frontend only", "backend + tests"), stored in
+ * IndexedDB and shared between people as JSON files.
+ */
+
+export const DEFAULT_PROFILE_SETTINGS: ProfileSettings = {
+  filters: DEFAULT_FILTER_SETTINGS,
+  archiveLimits: DEFAULT_ARCHIVE_LIMITS,
+  fileLimits: DEFAULT_FILE_LIMITS,
+  contentHandlers: DEFAULT_CONTENT_HANDLERS,
+  modelId: DEFAULT_MODEL_ID,
+  format: 'markdown',
+  compression: DEFAULT_COMPRESSION_SETTINGS,
+  split: DEFAULT_SPLIT_SETTINGS,
+  appendReport: false,
+  overview: true,
+  dedup: DEFAULT_DEDUP_SETTINGS,
+  promptTemplate: null,
+};
+
+const EXPORT_VERSION = 1;
+
+type Check = (value: unknown) => boolean;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isBoolean: Check = value => typeof value === 'boolean';
+const isString: Check = value => typeof value === 'string';
+const isCount: Check = value => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isStringList: Check = value => Array.isArray(value) && value.every(isString);
+const oneOf = (options: readonly unknown[]): Check => value => options.includes(value);
+
+const isCompressionRule: Check = value =>
+  isRecord(value) && isString(value.pattern) && oneOf(COMPRESSION_LEVELS)(value.level);
+
+const isPromptTemplate = (value: unknown): value is PromptTemplate =>
+  isRecord(value) && ['id', 'name', 'preamble', 'postamble'].every(key => isString(value[key]))
+  && (value.builtIn === undefined || isBoolean(value.builtIn));
+
+// Field checks of every settings group, keyed like the group's defaults
+const GROUP_CHECKS = {
+  filters: { include: isStringList, exclude: isStringList, detectText: isBoolean },
+  archiveLimits: { maxTotalSize: isCount, maxEntrySize: isCount, maxCompressionRatio: isCount, maxEntries: isCount },
+  fileLimits: { maxBytes: isCount, maxLines: isCount, action: oneOf(FILE_LIMIT_ACTIONS), keepLines: isCount, excludeGenerated: isBoolean },
+  contentHandlers: {
+    enabled: isBoolean,
+    notebookOutputs: oneOf(NOTEBOOK_OUTPUT_MODES),
+    outputLines: isCount,
+    tableRows: isCount,
+    dataMaxBytes: isCount,
+    svg: oneOf(SVG_MODES),
+  },
+  compression: { level: oneOf(COMPRESSION_LEVELS), rules: (value: unknown) => Array.isArray(value) && value.every(isCompressionRule) },
+  split: { enabled: isBoolean, maxSize: isCount, unit: oneOf(['tokens', 'bytes']), header: oneOf(['tree', 'index']) },
+  dedup: { enabled: isBoolean, ignoreWhitespace: isBoolean },
+} satisfies { [K in keyof ProfileSettings]?: Record<keyof ProfileSettings[K], Check> };
+
+const VALUE_CHECKS = {
+  modelId: isString,
+  format: oneOf(OUTPUT_FORMATS.map(format => format.id)),
+  appendReport: isBoolean,
+  overview: isBoolean,
+  promptTemplate: (value: unknown) => value === null || isPromptTemplate(value),
+} satisfies { [K in keyof ProfileSettings]?: Check };
+
+/**
+ * Checks stored or imported settings field by field. Settings missing from
+ * older profiles, whole groups or single fields, get their defaults; a value
+ * of the wrong type makes the profile invalid, and the setting is returned.
+ */
+export const parseProfileSettings = (value: unknown): { settings: ProfileSettings } | { invalid: string } => {
+  if (!isRecord(value)) return { invalid: 'settings' };
+  const settings: Record<string, unknown> = { ...DEFAULT_PROFILE_SETTINGS };
+
+  for (const [group, checks] of Object.entries(GROUP_CHECKS)) {
+    const stored = value[group];
+    if (stored === undefined) continue;
+    if (!isRecord(stored)) return { invalid: group };
+    const merged: Record<string, unknown> = { ...settings[group] as object };
+    for (const [field, check] of Object.entries<Check>(checks)) {
+      if (stored[field] === undefined) continue;
+      if (!check(stored[field])) return { invalid: `${group}.${field}` };
+      merged[field] = stored[field];
+    }
+    settings[group] = merged;
+  }
+
+  for (const [key, check] of Object.entries<Check>(VALUE_CHECKS)) {
+    if (value[key] === undefined) continue;
+    if (!check(value[key])) return { invalid: key };
+    settings[key] = value[key];
+  }
+
+  return { settings: settings as unknown as ProfileSettings };
+};
+
+// Stored profiles go through the same checks; ones that no longer pass are left out
+export const listProfiles = async (): Promise<SettingsProfile[]> =>
+  (await getAllRecords<SettingsProfile>('profiles'))
+    .flatMap(profile => {
+      const parsed = parseProfileSettings(profile.settings);
+      if ('invalid' in parsed) {
+        console.warn(`Skipping profile "${profile.name}": invalid ${parsed.invalid}`);
+        return [];
+      }
+      return [{ ...profile, settings: parsed.settings }];
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Saves the settings under a name; a profile with the same name is replaced.
+ */
+export const saveProfile = async (name: string, settings: ProfileSettings): Promise<SettingsProfile> => {
+  const existing = (await listProfiles()).find(p => p.name === name);
+  const profile: SettingsProfile = { id: existing?.id ?? createRecordId(), name, updatedAt: Date.now(), settings };
+  await putRecords('profiles', [profile]);
+  return profile;
+};
+
+export const deleteProfile = (id: string): Promise<void> => deleteRecords('profiles', [id]);
+
+export const exportProfiles = (profiles: SettingsProfile[]): string =>
+  `${JSON.stringify({ version: EXPORT_VERSION, profiles: profiles.map(({ name, settings }) => ({ name, settings })) }, null, 2)}\n`;
+
+/**
+ * Reads an exported file and stores its profiles, replacing profiles with
+ * the same names. Settings missing from older exports get their defaults.
+ */
+export const importProfiles = async (json: string): Promise<SettingsProfile[]> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new LocalizedError('error.profilesNotJson');
+  }
+  if (!isRecord(data) || !Array.isArray(data.profiles)) throw new LocalizedError('error.profilesMissing');
+  if (typeof data.version === 'number' && data.version > EXPORT_VERSION) throw new LocalizedError('error.profilesTooNew');
+
+  const existing = await listProfiles();
+  const imported: SettingsProfile[] = data.profiles.map((entry: unknown, index: number) => {
+    if (!isRecord(entry) || typeof entry.name !== 'string' || !entry.name.trim()) {
+      throw new LocalizedError('error.profileCorrupted', { number: index + 1 });
+    }
+    const parsed = parseProfileSettings(entry.settings);
+    if ('invalid' in parsed) {
+      throw new LocalizedError('error.profileInvalidSetting', { number: index + 1, setting: parsed.invalid });
+    }
+    const name = entry.name.trim();
+    return {
+      id: existing.find(p => p.name === name)?.id ?? createRecordId(),
+      name,
+      updatedAt: Date.now(),
+      settings: parsed.settings,
+    };
+  });
+
+  await putRecords('profiles', imported);
+  return imported;
+};
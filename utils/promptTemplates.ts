@@ -0,0 +1,76 @@
+import { PromptTemplate } from '../types';
+
+/**
+ * Prompt templates: instructions placed before and after the pack, with
+ * {{variables}} filled in when the pack is generated. Presets are built in,
+ * user templates are kept in localStorage.
+ */
+
+export interface PromptVariables {
+  repoName: string;
+  fileCount: number;
+  tokenCount: number;
+  tree: string;
+  date: string;
+}
+
+export const PROMPT_VARIABLES: (keyof PromptVariables)[] = ['repoName', 'fileCount', 'tokenCount', 'tree', 'date'];
+
+export const BUILT_IN_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'code-review',
+    name: 'Code review',
+    builtIn: true,
+    preamble: 'You are a senior engineer reviewing the project {{repoName}} ({{fileCount}} files). Its full source code follows.',
+    postamble: 'Review the code above. Point out bugs, risky patterns, unclear naming and missing error handling. '
+      + 'For each issue give the file path, explain the problem and suggest a concrete fix. Order the issues by severity.',
+  },
+  {
+    id: 'bug-hunt',
+    name: 'Bug hunt',
+    builtIn: true,
+    preamble: 'The source code of {{repoName}} follows. Study it carefully before answering.',
+    postamble: 'Find bugs in the code above: logic errors, unhandled edge cases, race conditions, resource leaks and security problems. '
+      + 'Answer only about real defects you can point to in the code, with the file path and a minimal fix. Do not comment on style.',
+  },
+  {
+    id: 'documentation',
+    name: 'Documentation',
+    builtIn: true,
+    preamble: 'You are a technical writer. The project {{repoName}} is given below, structured as follows:\n\n{{tree}}',
+    postamble: 'Write developer documentation for the project above: its purpose, architecture, main modules and how they interact, '
+      + 'setup and usage. Use Markdown with headings and code examples taken from the sources.',
+  },
+];
+
+const STORAGE_KEY = 'repopacker.promptTemplates';
+
+// Local calendar date as YYYY-MM-DD
+export const formatPromptDate = (date: Date): string =>
+  [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(n => String(n).padStart(2, '0')).join('-');
+
+/**
+ * Replaces {{name}} placeholders; unknown names are left as they are.
+ */
+export const renderPromptTemplate = (text: string, variables: PromptVariables): string =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? String(variables[name as keyof PromptVariables]) : match
+  );
+
+export const loadCustomTemplates = (): PromptTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(t => t && typeof t.id === 'string' && !t.builtIn) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomTemplates = (templates: PromptTemplate[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  } catch (error) {
+    // Private mode or a full quota: templates then live for the session only
+    console.warn('Could not save the templates', error);
+  }
+};
@@ -0,0 +1,186 @@
+import { ProcessedFile, SecretAction, SecretFinding } from '../types';
+
+/**
+ * Detects credentials in file contents before they are packed: provider
+ * specific token formats, private keys, JWTs, connection strings with
+ * passwords, and high-entropy values assigned to secret-like names.
+ */
+
+interface SecretRule {
+  id: string;
+  label: string;
+  regex: RegExp; // must be global; `group` selects the secret part of the match
+  group?: number;
+  minEntropy?: number;
+}
+
+const SECRET_RULES: SecretRule[] = [
+  { id: 'private-key', label: 'Private key', regex: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g },
+  { id: 'aws-access-key', label: 'AWS access key ID', regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { id: 'aws-secret-key', label: 'AWS secret access key', regex: /aws_?secret_?access_?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})\b/gi, group: 1 },
+  { id: 'github-token', label: 'GitHub token', regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{60,})\b/g },
+  { id: 'gitlab-token', label: 'GitLab token', regex: /\bglpat-[A-Za-z0-9_-]{20,}\b/g },
+  { id: 'slack-token', label: 'Slack token', regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g },
+  { id: 'stripe-key', label: 'Stripe secret key', regex: /\b[rs]k_live_[A-Za-z0-9]{20,}\b/g },
+  { id: 'google-api-key', label: 'Google API key', regex: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { id: 'anthropic-key', label: 'Anthropic API key', regex: /\bsk-ant-[A-Za-z0-9_-]{32,}\b/g },
+  { id: 'openai-key', label: 'OpenAI API key', regex: /\bsk-(?!ant-)(?:proj-)?[A-Za-z0-9_-]{32,}\b/g },
+  { id: 'jwt', label: 'JSON Web Token', regex: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\b/g },
+  {
+    id: 'connection-string',
+    label: 'Connection string with password',
+    regex: /\b(?:postgres(?:ql)?|mysql|mariadb|mongodb(?:\+srv)?|redis|rediss|amqps?|mssql|sqlserver):\/\/[^\s:/@'"]+:([^\s@'"]+)@/gi,
+    group: 1,
+  },
+  {
+    id: 'generic-secret',
+    label: 'High-entropy secret assignment',
+    // The name around the keyword is bounded, otherwise long dotted or dashed runs (SVG paths) take quadratic time
+    regex: /(?<![\w.-])[\w.-]{0,64}?(?:api[_-]?key|secret|token|passw(?:or)?d|pwd|credential|auth[_-]?key)[\w.-]{0,64}["']?\s*[:=]\s*["'`]?([^\s"'`,;]{12,})/gi,
+    group: 1,
+    minEntropy: 3.5,
+  },
+];
+
+// Values that only look like secrets: placeholders, interpolation and code references
+const PLACEHOLDER_PATTERN = /^(?:x{4,}|\*{4,}|<[^>]*>|\$\{.*\}|\{\{.*\}\}|%[^%]+%)$|example|changeme|your[_-]|dummy|placeholder|redacted|process\.env|os\.environ|getenv/i;
+
+/**
+ * Shannon entropy in bits per character.
+ */
+export const shannonEntropy = (value: string): number => {
+  if (!value) return 0;
+  const counts = new Map<string, number>();
+  for (const ch of value) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+
+  let entropy = 0;
+  counts.forEach(count => {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  });
+  return entropy;
+};
+
+const maskSecret = (value: string): string => {
+  const firstLine = value.split('\n')[0];
+  // The PEM armor line identifies the key type without revealing anything
+  if (firstLine.startsWith('-----BEGIN')) return firstLine;
+  return firstLine.length <= 8 ? '*'.repeat(firstLine.length) : `${firstLine.slice(0, 4)}…${firstLine.slice(-2)} (${value.length})`;
+};
+
+const lineStarts = (content: string): number[] => {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content.charCodeAt(i) === 10) starts.push(i + 1);
+  }
+  return starts;
+};
+
+// 1-based line of an offset, by binary search over the line start offsets
+const lineAt = (starts: number[], offset: number): number => {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (starts[middle] <= offset) low = middle;
+    else high = middle - 1;
+  }
+  return low + 1;
+};
+
+/**
+ * Scans one file and returns its findings ordered by position.
+ * Overlapping matches of later rules are dropped in favor of earlier (more specific) ones.
+ */
+export const scanForSecrets = (file: Pick<ProcessedFile, 'path' | 'content'>): SecretFinding[] => {
+  const findings: SecretFinding[] = [];
+  let starts: number[] | undefined; // built on the first finding
+
+  for (const rule of SECRET_RULES) {
+    rule.regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = rule.regex.exec(file.content)) !== null) {
+      const secret = rule.group !== undefined ? match[rule.group] : match[0];
+      if (!secret) continue;
+
+      const start = match.index + match[0].lastIndexOf(secret);
+      const end = start + secret.length;
+
+      if (rule.minEntropy !== undefined) {
+        if (PLACEHOLDER_PATTERN.test(secret)) continue;
+        if (!/\d/.test(secret) || !/[A-Za-z]/.test(secret)) continue;
+        if (shannonEntropy(secret) < rule.minEntropy) continue;
+      }
+      if (findings.some(f => start < f.end && end > f.start)) continue;
+
+      findings.push({
+        id: `${file.path}:${start}`,
+        path: file.path,
+        line: lineAt(starts ??= lineStarts(file.content), start),
+        ruleId: rule.id,
+        ruleLabel: rule.label,
+        preview: maskSecret(secret),
+        start,
+        end,
+      });
+    }
+  }
+
+  return findings.sort((a, b) => a.start - b.start);
+};
+
+export interface RedactionResult {
+  files: ProcessedFile[];
+  redacted: SecretFinding[];
+}
+
+/**
+ * Applies the user's decisions: files with any finding marked 'exclude' are
+ * dropped, findings marked 'redact' are replaced with a placeholder and
+ * 'keep' leaves the content untouched. Findings without a decision are redacted.
+ */
+export const applySecretActions = (
+  files: ProcessedFile[],
+  findings: SecretFinding[],
+  actions: Record<string, SecretAction>,
+  countTokens: (text: string) => number
+): RedactionResult => {
+  const byPath = new Map<string, SecretFinding[]>();
+  findings.forEach(f => byPath.set(f.path, [...(byPath.get(f.path) ?? []), f]));
+
+  const textEncoder = new TextEncoder();
+  const redacted: SecretFinding[] = [];
+  const result: ProcessedFile[] = [];
+
+  for (const file of files) {
+    const fileFindings = byPath.get(file.path);
+    if (!fileFindings) {
+      result.push(file);
+      continue;
+    }
+    if (fileFindings.some(f => actions[f.id] === 'exclude')) continue;
+
+    const toRedact = fileFindings.filter(f => (actions[f.id] ?? 'redact') === 'redact');
+    if (toRedact.length === 0) {
+      result.push(file);
+      continue;
+    }
+
+    // Replace from the end so earlier offsets stay valid
+    let content = file.content;
+    [...toRedact].reverse().forEach(f => {
+      content = `${content.slice(0, f.start)}[REDACTED:${f.ruleId}]${content.slice(f.end)}`;
+    });
+    redacted.push(...toRedact);
+
+    result.push({
+      ...file,
+      content,
+      size: textEncoder.encode(content).length,
+      tokens: countTokens(content),
+    });
+  }
+
+  return { files: result, redacted };
+};
@@ -0,0 +1,150 @@
+import JSZip from 'jszip';
+import { ProcessedFile, SplitSettings } from '../types';
+import { LineRange, OutputFormat, PackHeader } from './outputFormats';
+import { LocalizedError } from './i18n';
+
+export const DEFAULT_SPLIT_SETTINGS: SplitSettings = {
+  enabled: false,
+  maxSize: 100_000,
+  unit: 'tokens',
+  header: 'tree',
+};
+
+// Measures a piece of output in the unit of the split limit (tokens or bytes)
+export type SizeMeasure = (text: string) => number;
+
+interface PartBlock {
+  indexEntry: string; // line for the compact index
+  body: string;
+  size: number;
+}
+
+interface PartDraft {
+  blocks: PartBlock[];
+  size: number;
+}
+
+// Numbers wide enough for any realistic part label so budgets are never underestimated
+const PLACEHOLDER_PART = { number: 999, total: 999 };
+const PLACEHOLDER_RANGE: LineRange = { start: 999999, end: 999999 };
+
+const indexEntryFor = (path: string, range?: LineRange): string =>
+  range ? `${path} (lines ${range.start}–${range.end})` : path;
+
+/**
+ * Splits one file into line ranges whose rendered blocks fit the budget.
+ * A single line longer than the budget still becomes its own (oversized) block.
+ */
+const splitFileByLines = (file: ProcessedFile, format: OutputFormat, budget: number, measure: SizeMeasure): PartBlock[] => {
+  const lines = file.content.split('\n');
+  const blocks: PartBlock[] = [];
+
+  // Block overhead and per-line costs are measured once; joining lines is roughly additive
+  const overhead = measure(format.renderFile({ ...file, content: '' }, PLACEHOLDER_RANGE) + format.fileSeparator);
+  const lineSizes = lines.map(line => measure(line + '\n'));
+
+  const makeBlock = (start: number, end: number): PartBlock => {
+    const range = { start: start + 1, end };
+    const body = format.renderFile({ ...file, content: lines.slice(start, end).join('\n') }, range);
+    return { indexEntry: indexEntryFor(file.path, range), body, size: measure(body + format.fileSeparator) };
+  };
+
+  let start = 0;
+  while (start < lines.length) {
+    let end = start + 1;
+    let size = overhead + lineSizes[start];
+    while (end < lines.length && size + lineSizes[end] <= budget) {
+      size += lineSizes[end];
+      end++;
+    }
+    // The estimate misses framing that depends on the content (longer Markdown fences,
+    // escaping), so a block that turns out too big is shrunk until it fits
+    let block = makeBlock(start, end);
+    while (block.size > budget && end - start > 1) {
+      end = start + Math.max(1, Math.floor((end - start) * budget / block.size));
+      block = makeBlock(start, end);
+    }
+    blocks.push(block);
+    start = end;
+  }
+
+  return blocks;
+};
+
+/**
+ * Splits the pack into numbered parts no larger than `settings.maxSize`
+ * (as measured by `measure`). Parts break only between files, except when a
+ * single file does not fit into an empty part; such a file is split by lines.
+ * Every part repeats the project header and either the full tree or an index
+ * of the files it contains. Each part is returned as a list of chunks.
+ */
+export const splitPackContent = (
+  format: OutputFormat,
+  header: PackHeader,
+  files: ProcessedFile[],
+  settings: SplitSettings,
+  measure: SizeMeasure
+): string[][] => {
+  const headerFor = (part: PackHeader['part'], index: string[]): PackHeader =>
+    settings.header === 'tree' ? { ...header, index: undefined, part } : { ...header, tree: undefined, index, part };
+
+  const indexLineSize = (entry: string) => (settings.header === 'index' ? measure(`- ${entry}\n`) : 0);
+  const emptyHeader = headerFor(PLACEHOLDER_PART, []);
+  // The preamble only opens the first part and the report and postamble only close the last one
+  const firstHeader = headerFor({ ...PLACEHOLDER_PART, number: 1 }, []);
+  const headerSize = Math.max(measure(format.renderHeader(emptyHeader)), measure(format.renderHeader(firstHeader)));
+  const frameSize = headerSize + measure(format.renderFooter(emptyHeader));
+  const budget = settings.maxSize - frameSize;
+
+  if (budget <= 0) {
+    throw new LocalizedError('error.partTooSmall');
+  }
+
+  const drafts: PartDraft[] = [];
+  let current: PartDraft = { blocks: [], size: 0 };
+
+  const pushBlock = (block: PartBlock) => {
+    const cost = block.size + indexLineSize(block.indexEntry);
+    if (current.blocks.length > 0 && current.size + cost > budget) {
+      drafts.push(current);
+      current = { blocks: [], size: 0 };
+    }
+    current.blocks.push(block);
+    current.size += cost;
+  };
+
+  for (const file of files) {
+    const body = format.renderFile(file);
+    // The separator is counted on every block, which slightly overestimates the last one
+    const block: PartBlock = { indexEntry: file.path, body, size: measure(body + format.fileSeparator) };
+
+    if (block.size + indexLineSize(block.indexEntry) <= budget) {
+      pushBlock(block);
+    } else {
+      // Too big even for an empty part: break it up by lines
+      const lineBudget = budget - indexLineSize(indexEntryFor(file.path, PLACEHOLDER_RANGE));
+      splitFileByLines(file, format, lineBudget, measure).forEach(pushBlock);
+    }
+  }
+  if (current.blocks.length > 0) drafts.push(current);
+
+  return drafts.map((draft, index) => {
+    const partHeader = headerFor({ number: index + 1, total: drafts.length }, draft.blocks.map(b => b.indexEntry));
+    const chunks = [format.renderHeader(partHeader)];
+    draft.blocks.forEach((block, blockIndex) => {
+      if (blockIndex > 0 && format.fileSeparator) chunks.push(format.fileSeparator);
+      chunks.push(block.body);
+    });
+    chunks.push(format.renderFooter(partHeader));
+    return chunks;
+  });
+};
+
+/**
+ * Bundles all parts into a single ZIP archive for one-click download.
+ */
+export const bundlePartsAsZip = (parts: { fileName: string, chunks: string[] }[]): Promise<Blob> => {
+  const zip = new JSZip();
+  parts.forEach(part => zip.file(part.fileName, new Blob(part.chunks)));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
@@ -0,0 +1,64 @@
+/**
+ * Thin promise wrapper over the app's IndexedDB database. Settings profiles
+ * and the pack history each live in their own object store, keyed by `id`.
+ */
+
+const DB_NAME = 'repopacker';
+const DB_VERSION = 1;
+
+export type StoreName = 'profiles' | 'history';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('profiles')) db.createObjectStore('profiles', { keyPath: 'id' });
+        if (!db.objectStoreNames.contains('history')) db.createObjectStore('history', { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call retry, e.g. after the user allowed storage
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Aborted', 'AbortError'));
+  });
+
+export const getAllRecords = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  const request = db.transaction(store).objectStore(store).getAll();
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const putRecords = async <T>(store: StoreName, records: T[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, 'readwrite');
+  records.forEach(record => transaction.objectStore(store).put(record));
+  return transactionDone(transaction);
+};
+
+export const deleteRecords = async (store: StoreName, ids: string[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, 'readwrite');
+  ids.forEach(id => transaction.objectStore(store).delete(id));
+  return transactionDone(transaction);
+};
+
+export const createRecordId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
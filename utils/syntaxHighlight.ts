@@ -0,0 +1,73 @@
+import { segmentCode } from './compression';
+
+/**
+ * Lightweight syntax highlighting for the result viewer. Comments and string
+ * literals come from the same scanner the compression uses; keywords and
+ * numbers are matched in the remaining code.
+ */
+
+export type HighlightKind = 'plain' | 'keyword' | 'number' | 'string' | 'comment' | 'added' | 'removed' | 'meta';
+
+export interface HighlightToken {
+  kind: HighlightKind;
+  text: string;
+}
+
+// Highlighting larger files would make the viewer sluggish; they are shown as plain text
+const MAX_HIGHLIGHT_LENGTH = 300_000;
+
+// Shared across languages: a keyword of one language is rarely an identifier in another
+const KEYWORDS = [
+  'abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'def', 'default',
+  'defer', 'del', 'delete', 'do', 'elif', 'else', 'enum', 'except', 'export', 'extends', 'false', 'final', 'finally',
+  'fn', 'for', 'from', 'func', 'function', 'go', 'if', 'impl', 'implements', 'import', 'in', 'instanceof', 'interface',
+  'lambda', 'let', 'match', 'mod', 'module', 'mut', 'namespace', 'new', 'nil', 'None', 'not', 'null', 'of', 'or',
+  'and', 'package', 'pass', 'private', 'protected', 'pub', 'public', 'raise', 'readonly', 'return', 'self', 'static',
+  'struct', 'super', 'switch', 'this', 'throw', 'throws', 'trait', 'True', 'False', 'true', 'try', 'type', 'typeof',
+  'undefined', 'use', 'var', 'void', 'while', 'with', 'yield',
+];
+
+const CODE_PATTERN = new RegExp(`\\b(?:${KEYWORDS.join('|')})\\b|\\b\\d[\\w.]*`, 'g');
+
+const highlightCodeText = (text: string, out: HighlightToken[]) => {
+  let last = 0;
+  for (const match of text.matchAll(CODE_PATTERN)) {
+    const start = match.index!;
+    if (start > last) out.push({ kind: 'plain', text: text.slice(last, start) });
+    out.push({ kind: /^\d/.test(match[0]) ? 'number' : 'keyword', text: match[0] });
+    last = start + match[0].length;
+  }
+  if (last < text.length) out.push({ kind: 'plain', text: text.slice(last) });
+};
+
+const DIFF_LINE_KINDS: [string, HighlightKind][] = [['+++', 'meta'], ['---', 'meta'], ['@@', 'meta'], ['+', 'added'], ['-', 'removed']];
+
+const highlightDiffLine = (line: string): HighlightToken[] => {
+  const kind = DIFF_LINE_KINDS.find(([prefix]) => line.startsWith(prefix))?.[1] ?? 'plain';
+  return [{ kind, text: line }];
+};
+
+/**
+ * Returns the file's lines as lists of highlighted tokens.
+ */
+export const highlightLines = (path: string, content: string, isDiff = false): HighlightToken[][] => {
+  const lines = content.split('\n');
+  if (isDiff) return lines.map(highlightDiffLine);
+  if (content.length > MAX_HIGHLIGHT_LENGTH) return lines.map(text => [{ kind: 'plain', text }]);
+
+  const tokens: HighlightToken[] = [];
+  for (const segment of segmentCode(path, content) ?? [{ kind: 'plain', text: content }]) {
+    if (segment.kind === 'code') highlightCodeText(segment.text, tokens);
+    else tokens.push({ kind: segment.kind, text: segment.text });
+  }
+
+  // Tokens may span lines (block comments, template strings); cut them at newlines
+  const result: HighlightToken[][] = [[]];
+  tokens.forEach(token => {
+    token.text.split('\n').forEach((piece, index) => {
+      if (index > 0) result.push([]);
+      if (piece) result[result.length - 1].push({ kind: token.kind, text: piece });
+    });
+  });
+  return result;
+};
@@ -0,0 +1,117 @@
+/**
+ * Minimal tar reader: ustar and GNU/PAX long names. Returns regular files
+ * and links (without data, so they can be reported); directories and device
+ * entries are skipped. Operates on an in-memory archive; file data is
+ * returned as views into it.
+ */
+
+export interface TarEntry {
+  path: string;
+  data: Uint8Array;
+  linkTarget?: string; // set for hard and symbolic links
+}
+
+const BLOCK_SIZE = 512;
+
+const utf8 = new TextDecoder('utf-8');
+
+const readString = (block: Uint8Array, offset: number, length: number): string => {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return utf8.decode(end === -1 ? field : field.subarray(0, end));
+};
+
+const readOctal = (block: Uint8Array, offset: number, length: number): number => {
+  // GNU base-256 encoding for values that do not fit in octal
+  if (block[offset] & 0x80) {
+    let value = block[offset] & 0x7f;
+    for (let i = 1; i < length; i++) value = value * 256 + block[offset + i];
+    return value;
+  }
+  const text = readString(block, offset, length).trim();
+  return text ? parseInt(text, 8) : 0;
+};
+
+const isZeroBlock = (block: Uint8Array): boolean => block.every(byte => byte === 0);
+
+const hasValidChecksum = (block: Uint8Array): boolean => {
+  // The checksum field itself counts as eight spaces
+  let sum = 8 * 0x20;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    if (i < 148 || i >= 156) sum += block[i];
+  }
+  return sum === readOctal(block, 148, 8);
+};
+
+// PAX extended header records: "<length> <key>=<value>\n"
+const parsePaxHeaders = (data: Uint8Array): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  const text = utf8.decode(data);
+  let pos = 0;
+  while (pos < text.length) {
+    const space = text.indexOf(' ', pos);
+    const length = parseInt(text.slice(pos, space), 10);
+    if (space === -1 || !length) break;
+    const record = text.slice(space + 1, pos + length - 1);
+    const eq = record.indexOf('=');
+    if (eq !== -1) headers[record.slice(0, eq)] = record.slice(eq + 1);
+    pos += length;
+  }
+  return headers;
+};
+
+/**
+ * Returns true when the buffer starts with a tar header.
+ */
+export const isTarArchive = (bytes: Uint8Array): boolean =>
+  bytes.length >= BLOCK_SIZE && (readString(bytes, 257, 5) === 'ustar' || hasValidChecksum(bytes.subarray(0, BLOCK_SIZE)));
+
+/**
+ * Lists the regular files and links of a tar archive. Throws on a corrupt header.
+ */
+export const readTarEntries = (bytes: Uint8Array): TarEntry[] => {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+  let longName: string | null = null;
+  let pax: Record<string, string> = {};
+
+  while (offset + BLOCK_SIZE <= bytes.length) {
+    const header = bytes.subarray(offset, offset + BLOCK_SIZE);
+    if (isZeroBlock(header)) break;
+    if (!hasValidChecksum(header)) {
+      throw new Error(`Corrupted TAR header at offset ${offset}`);
+    }
+
+    const type = String.fromCharCode(header[156] || 0x30);
+    const size = pax.size ? parseInt(pax.size, 10) : readOctal(header, 124, 12);
+    const dataStart = offset + BLOCK_SIZE;
+    const data = bytes.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (type === 'L') {
+      longName = readString(data, 0, data.length);
+      continue;
+    }
+    if (type === 'x') {
+      pax = parsePaxHeaders(data);
+      continue;
+    }
+    if (type === 'g') continue; // global PAX header (e.g. the commit id in GitHub tarballs)
+
+    const prefix = readString(header, 345, 155);
+    const name = readString(header, 0, 100);
+    const path = pax.path ?? longName ?? (prefix ? `${prefix}/${name}` : name);
+    const linkTarget = pax.linkpath ?? readString(header, 157, 100);
+    longName = null;
+    pax = {};
+
+    // '0' and the legacy NUL flag are regular files, '7' is contiguous
+    if (type === '0' || type === '7') {
+      entries.push({ path: path.replace(/^\.\//, ''), data });
+    } else if (type === '1' || type === '2') {
+      entries.push({ path: path.replace(/^\.\//, ''), data: new Uint8Array(0), linkTarget });
+    }
+  }
+
+  return entries;
+};
@@ -0,0 +1,117 @@
+/**
+ * Content-based text/binary detection. Extensions are only used as hints:
+ * well-known binary formats are skipped without decompression, and a text
+ * hint allows falling back to a legacy single-byte encoding.
+ */
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface TextDetectionResult {
+  isText: boolean;
+  encoding?: TextEncoding;
+}
+
+// Number of leading bytes inspected (same window git uses for its binary check)
+const SNIFF_SAMPLE_SIZE = 8000;
+
+// Formats that are never worth decompressing to sniff
+const BINARY_EXTENSIONS = new Set([
+  'png', 'jpg', 'jpeg', 'gif', 'bmp', 'ico', 'webp', 'avif', 'tif', 'tiff', 'psd',
+  'mp3', 'mp4', 'wav', 'ogg', 'flac', 'avi', 'mov', 'mkv', 'webm',
+  'zip', 'gz', 'tgz', 'bz2', 'xz', '7z', 'rar', 'tar', 'jar', 'war',
+  'pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx',
+  'woff', 'woff2', 'ttf', 'otf', 'eot',
+  'exe', 'dll', 'so', 'dylib', 'a', 'o', 'obj', 'lib', 'class', 'pyc', 'wasm', 'bin', 'dat',
+  'sqlite', 'db'
+]);
+
+/**
+ * Returns the lowercase extension of the file name (without the directory), or '' if none.
+ */
+export const getExtension = (path: string): string => {
+  const basename = path.split('/').pop() || '';
+  const dot = basename.lastIndexOf('.');
+  return dot === -1 ? '' : basename.slice(dot + 1).toLowerCase();
+};
+
+export const hasBinaryExtension = (path: string): boolean => BINARY_EXTENSIONS.has(getExtension(path));
+
+const detectBom = (bytes: Uint8Array): TextEncoding | null => {
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return null;
+};
+
+/**
+ * Detects BOM-less UTF-16 by the pattern of zero bytes that ASCII-range
+ * characters leave in every other position.
+ */
+const detectUtf16 = (sample: Uint8Array): TextEncoding | null => {
+  const pairs = Math.floor(sample.length / 2);
+  // Too little data to tell a pattern from noise
+  if (pairs < 8) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < pairs * 2; i += 2) {
+    // A NUL code unit practically never occurs in UTF-16 text
+    if (sample[i] === 0 && sample[i + 1] === 0) return null;
+    if (sample[i] === 0) evenZeros++;
+    if (sample[i + 1] === 0) oddZeros++;
+  }
+
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be';
+  return null;
+};
+
+const isValidUtf8 = (sample: Uint8Array, truncated: boolean): boolean => {
+  try {
+    // `stream: true` tolerates a multi-byte sequence cut off by the sample boundary
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: truncated });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const looksLikeText = (sample: Uint8Array): boolean => {
+  let control = 0;
+  for (const byte of sample) {
+    // Tab, LF, FF, CR, ESC and backspace are common in text files
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0c && byte !== 0x0d && byte !== 0x1b && byte !== 0x08) {
+      control++;
+    }
+  }
+  return sample.length === 0 || control / sample.length < 0.1;
+};
+
+/**
+ * Inspects the leading bytes of a file and decides whether (and how) it can be decoded as text.
+ * `textHint` signals that the name matched a text pattern, which permits a
+ * windows-1252 fallback for text that is not valid UTF-8.
+ */
+export const detectTextEncoding = (bytes: Uint8Array, textHint = false): TextDetectionResult => {
+  const sample = bytes.subarray(0, SNIFF_SAMPLE_SIZE);
+
+  const bom = detectBom(sample);
+  if (bom) return { isText: true, encoding: bom };
+
+  const utf16 = detectUtf16(sample);
+  if (utf16) return { isText: true, encoding: utf16 };
+
+  if (sample.includes(0)) return { isText: false };
+
+  if (isValidUtf8(sample, bytes.length > sample.length)) return { isText: true, encoding: 'utf-8' };
+
+  if (textHint && looksLikeText(sample)) return { isText: true, encoding: 'windows-1252' };
+
+  return { isText: false };
+};
+
+/**
+ * Decodes file bytes using the detected encoding; a leading BOM is dropped.
+ */
+export const decodeText = (bytes: Uint8Array, encoding: TextEncoding = 'utf-8'): string =>
+  new TextDecoder(encoding).decode(bytes);
@@ -0,0 +1,89 @@
+import type { TiktokenBPE } from 'js-tiktoken/lite';
+import { ProcessedFile, TokenizerId } from '../types';
+
+/**
+ * Pluggable token counting. BPE encodings are bundled with the app (no
+ * network access) and their vocabularies are loaded lazily on first use.
+ */
+
+export interface Tokenizer {
+  id: TokenizerId;
+  countTokens: (text: string) => number;
+}
+
+export interface ModelPreset {
+  id: string;
+  label: string;
+  approximate?: boolean; // token counts are an estimate
+  contextWindow: number;
+  tokenizer: TokenizerId;
+}
+
+// Models without a public tokenizer are mapped to the closest available encoding
+export const MODEL_PRESETS: ModelPreset[] = [
+  { id: 'gpt-4o', label: 'GPT-4o / o-series (128k)', contextWindow: 128_000, tokenizer: 'o200k_base' },
+  { id: 'gpt-4.1', label: 'GPT-4.1 (1M)', contextWindow: 1_047_576, tokenizer: 'o200k_base' },
+  { id: 'gpt-4-turbo', label: 'GPT-4 Turbo (128k)', contextWindow: 128_000, tokenizer: 'cl100k_base' },
+  { id: 'gpt-3.5-turbo', label: 'GPT-3.5 Turbo (16k)', contextWindow: 16_385, tokenizer: 'cl100k_base' },
+  { id: 'claude', label: 'Claude (200k)', approximate: true, contextWindow: 200_000, tokenizer: 'cl100k_base' },
+  { id: 'gemini-1.5-pro', label: 'Gemini 1.5 Pro (2M)', approximate: true, contextWindow: 2_000_000, tokenizer: 'o200k_base' },
+];
+
+export const DEFAULT_MODEL_ID = 'gpt-4o';
+
+export const getModelPreset = (id: string): ModelPreset =>
+  MODEL_PRESETS.find(m => m.id === id) ?? MODEL_PRESETS[0];
+
+// Fallback used when no vocabulary is wanted: ~4 characters per token
+export const heuristicTokenizer: Tokenizer = {
+  id: 'heuristic',
+  countTokens: (text: string) => Math.ceil(text.length / 4),
+};
+
+const loadBpeTokenizer = async (id: TokenizerId, loadRanks: () => Promise<{ default: TiktokenBPE }>): Promise<Tokenizer> => {
+  const [{ Tiktoken }, ranks] = await Promise.all([import('js-tiktoken/lite'), loadRanks()]);
+  const encoding = new Tiktoken(ranks.default);
+  return {
+    id,
+    // Special tokens such as <|endoftext|> inside files are counted as plain text
+    countTokens: (text: string) => encoding.encode(text, [], []).length,
+  };
+};
+
+const loaders = new Map<TokenizerId, () => Promise<Tokenizer>>([
+  ['heuristic', async () => heuristicTokenizer],
+  ['cl100k_base', () => loadBpeTokenizer('cl100k_base', () => import('js-tiktoken/ranks/cl100k_base'))],
+  ['o200k_base', () => loadBpeTokenizer('o200k_base', () => import('js-tiktoken/ranks/o200k_base'))],
+]);
+
+const cache = new Map<TokenizerId, Promise<Tokenizer>>();
+
+/**
+ * Returns copies of the files with token counts recomputed by the given tokenizer.
+ */
+export const countFileTokens = (files: ProcessedFile[], tokenizer: Tokenizer): ProcessedFile[] =>
+  files.map(f => ({ ...f, tokens: tokenizer.countTokens(f.content) }));
+
+/**
+ * Registers an additional tokenizer implementation (or replaces a built-in one).
+ */
+export const registerTokenizer = (id: TokenizerId, loader: () => Promise<Tokenizer>) => {
+  loaders.set(id, loader);
+  cache.delete(id);
+};
+
+/**
+ * Returns a ready-to-use tokenizer, loading its vocabulary on first request.
+ */
+export const loadTokenizer = (id: TokenizerId): Promise<Tokenizer> => {
+  let pending = cache.get(id);
+  if (!pending) {
+    const loader = loaders.get(id);
+    if (!loader) return Promise.reject(new Error(`Unknown tokenizer: ${id}`));
+    pending = loader();
+    // Allow retrying after a failed load
+    pending.catch(() => cache.delete(id));
+    cache.set(id, pending);
+  }
+  return pending;
+};
@@ -0,0 +1,99 @@
+import { ExtractionResult, PackSource, ProcessedFile, ProcessOptions, TokenizerId } from '../types';
+import { processSource } from './zipProcessor';
+import { GeneratePackInput, generatePack, materializePack, MaterializedPack } from './packGenerator';
+import { countFileTokens, loadTokenizer } from './tokenizer';
+import { LocalizedError, LocalizedMessage } from './i18n';
+import type { PackWorkerRequest, PackWorkerResponse } from './packWorker';
+
+type ProgressCallback = (percent: number, message: LocalizedMessage) => void;
+
+const abortError = () => new DOMException('Aborted', 'AbortError');
+
+/**
+ * Runs one job in a fresh worker. Progress is forwarded to `onProgress` and
+ * aborting the signal terminates the worker immediately.
+ */
+const runWorkerJob = <T>(request: PackWorkerRequest, onProgress: ProgressCallback, signal?: AbortSignal): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const worker = new Worker(new URL('./packWorker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<PackWorkerResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        onProgress(response.percent, response.message);
+        return;
+      }
+
+      cleanup();
+      if (response.type === 'result') {
+        resolve(response.result as T);
+      } else {
+        const error = response.key ? new LocalizedError(response.key, response.params) : new Error(response.message);
+        error.name = response.name;
+        reject(error);
+      }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      cleanup();
+      reject(event.message ? new Error(event.message) : new LocalizedError('error.worker'));
+    };
+
+    worker.postMessage(request);
+  });
+
+const supportsWorkers = typeof Worker !== 'undefined';
+
+/**
+ * Same contract as processSource, executed in a Web Worker when available.
+ */
+export const processSourceInWorker = (
+  source: PackSource,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal,
+  options: ProcessOptions = {}
+): Promise<ExtractionResult> =>
+  supportsWorkers
+    ? runWorkerJob<ExtractionResult>({ type: 'extract', source, options }, onProgress, signal)
+    : processSource(source, onProgress, signal, options);
+
+/**
+ * Generates the pack in a worker. With a `fileHandle` the output is streamed
+ * to that file and no blobs are returned.
+ */
+export const generatePackInWorker = async (
+  input: GeneratePackInput,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal,
+  fileHandle?: FileSystemFileHandle
+): Promise<MaterializedPack> =>
+  supportsWorkers
+    ? runWorkerJob<MaterializedPack>({ type: 'generate', input, fileHandle }, onProgress, signal)
+    : materializePack(await generatePack(input, onProgress), input.format);
+
+/**
+ * Recounts per-file tokens with another tokenizer off the main thread.
+ */
+export const countTokensInWorker = async (
+  files: ProcessedFile[],
+  tokenizer: TokenizerId,
+  signal?: AbortSignal
+): Promise<ProcessedFile[]> =>
+  supportsWorkers
+    ? runWorkerJob<ProcessedFile[]>({ type: 'recount', files, tokenizer }, () => {}, signal)
+    : countFileTokens(files, await loadTokenizer(tokenizer));
@@ -1,209 +1,331 @@
-import JSZip from 'jszip';
-import { ProcessedFile } from '../types';
-
-// List of extensions to treat as text
-const TEXT_EXTENSIONS = new Set([
-  'js', 'jsx', 'ts', 'tsx', 'json', 'css', 'scss', 'html', 'md', 'txt', 
-  'py', 'java', 'c', 'cpp', 'h', 'cs', 'go', 'rs', 'php', 'rb', 'sh', 
-  'yaml', 'yml', 'xml', 'sql', 'gitignore', 'env', 'dockerfile', 'toml', 'gradle', 'properties'
-]);
-
-// Directories to ignore
-const IGNORE_DIRS = new Set([
-  '.git', 'node_modules', 'dist', 'build', 'coverage', '.idea', '.vscode', '__pycache__', 'bin', 'obj'
-]);
-
-// Files to ignore
-const IGNORE_FILES = new Set([
-  'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', '.DS_Store', 'thumbs.db'
-]);
-
-const isTextFile = (filename: string): boolean => {
-  // Get basename (filename without path)
-  const basename = filename.split('/').pop()?.toLowerCase();
-  if (!basename) return false;
-
-  // Check known config files without extension
-  if (['dockerfile', 'makefile', 'license', 'jenkinsfile', 'vagrantfile'].includes(basename)) return true;
-
-  // Get extension
-  const parts = basename.split('.');
-  if (parts.length === 1) return false; // Binary file or script without extension not in whitelist
-  
-  const ext = parts.pop();
-  return ext ? TEXT_EXTENSIONS.has(ext) : false;
-};
-
-const shouldIgnore = (path: string): boolean => {
-  const parts = path.split('/');
-  
-  // Check if any part of the path is in ignored dirs
-  for (const part of parts) {
-    if (IGNORE_DIRS.has(part)) return true;
-  }
-
-  // Check filename
-  const filename = parts[parts.length - 1];
-  if (IGNORE_FILES.has(filename)) return true;
-  
-  return false;
-};
+import { ExtractionResult, FileTreeNode, ManifestEntry, PackSource, ProcessedFile, ProcessingStats, ProcessOptions, SecretFinding, SkippedFile } from '../types';
+import { createGitignoreMatcher, GitignoreSource } from './gitignore';
+import { createPathFilter, DEFAULT_FILTER_SETTINGS } from './filters';
+import { decodeText, detectTextEncoding, getExtension, hasBinaryExtension } from './textDetection';
+import { loadTokenizer } from './tokenizer';
+import { markdownFormat, renderPack } from './outputFormats';
+import { scanForSecrets } from './secretScanner';
+import { openSource, VirtualFileList } from './fileSources';
+import { applyFileLimits, DEFAULT_FILE_LIMITS, detectGenerated } from './fileLimits';
+import { applyContentHandler, DEFAULT_CONTENT_HANDLERS } from './contentHandlers';
+import { LocalizedMessage } from './i18n';
 
 /**
- * Generates a visual directory tree structure string
+ * Builds a nested directory tree from a flat list of file paths.
+ * Children are sorted by name; a node without children is a file.
  */
-export const generateTreeString = (paths: string[]): string => {
-  const tree: any = {};
+export const buildFileTree = (paths: string[]): FileTreeNode => {
+  const root: FileTreeNode = { name: '', path: '', isFile: false, children: [] };
+  const index = new Map<string, FileTreeNode>([['', root]]);
 
-  // Build tree object
   paths.forEach(path => {
     const parts = path.split('/');
-    let current = tree;
+    let current = root;
     parts.forEach(part => {
-      if (!current[part]) {
-        current[part] = {};
+      const nodePath = current.path ? `${current.path}/${part}` : part;
+      let node = index.get(nodePath);
+      if (!node) {
+        node = { name: part, path: nodePath, isFile: true, children: [] };
+        index.set(nodePath, node);
+        current.children.push(node);
+        current.isFile = false;
       }
-      current = current[part];
+      current = node;
     });
   });
 
+  const sortChildren = (node: FileTreeNode) => {
+    node.children.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    node.children.forEach(sortChildren);
+  };
+  sortChildren(root);
+
+  return root;
+};
+
+/**
+ * Returns the folder every path lives in (like `repo-main` in GitHub
+ * archives), or null when there is no single top-level folder.
+ */
+export const getSharedRootFolder = (paths: string[]): string | null => {
+  if (paths.length === 0) return null;
+  const root = paths[0].split('/')[0];
+  return paths.every(path => path.startsWith(`${root}/`)) ? root : null;
+};
+
+/**
+ * Generates a visual directory tree structure string.
+ * `labels` are appended to the matching file names.
+ */
+export const generateTreeString = (paths: string[], labels: Record<string, string> = {}): string => {
   // Recursive print function
-  const printTree = (node: any, prefix = ''): string => {
+  const printTree = (node: FileTreeNode, prefix = ''): string => {
     let output = '';
-    const keys = Object.keys(node).sort();
-    
-    keys.forEach((key, index) => {
-      const isLast = index === keys.length - 1;
+
+    node.children.forEach((child, index) => {
+      const isLast = index === node.children.length - 1;
       const connector = isLast ? '└── ' : '├── ';
       const childPrefix = isLast ? '    ' : '│   ';
-      const isFile = Object.keys(node[key]).length === 0;
-      
-      output += `${prefix}${connector}${key}${isFile ? '' : '/'}\n`;
-      
-      if (!isFile) {
-        output += printTree(node[key], prefix + childPrefix);
+
+      const label = child.isFile && labels[child.path] ? ` ${labels[child.path]}` : '';
+      output += `${prefix}${connector}${child.name}${child.isFile ? '' : '/'}${label}\n`;
+
+      if (!child.isFile) {
+        output += printTree(child, prefix + childPrefix);
       }
     });
-    
+
     return output;
   };
 
-  return printTree(tree).trim();
+  return printTree(buildFileTree(paths)).trim();
 };
 
-export const processZipFile = async (
-  file: File, 
-  onProgress: (percent: number, message: string) => void,
-  signal?: AbortSignal
-): Promise<{ files: ProcessedFile[], tree: string, stats: { fileCount: number, totalSize: number, tokenEstimate: number } }> => {
-  
-  onProgress(5, "Чтение ZIP архива...");
-  
-  const zip = new JSZip();
-  let loadedZip;
-  try {
-    loadedZip = await zip.loadAsync(file);
-  } catch (e) {
-    throw new Error("Не удалось открыть ZIP файл. Возможно он поврежден.");
+/**
+ * Aggregates size and token statistics for a set of files
+ */
+export const computeStats = (files: ProcessedFile[]): ProcessingStats => {
+  const stats: ProcessingStats = {
+    fileCount: files.length,
+    totalSize: files.reduce((sum, f) => sum + f.size, 0),
+    tokenCount: files.reduce((sum, f) => sum + f.tokens, 0)
+  };
+  const truncatedFiles = files.filter(f => f.truncatedLines !== undefined).length;
+  if (truncatedFiles > 0) stats.truncatedFiles = truncatedFiles;
+  return stats;
+};
+
+// Manifest entries for entries the source itself skipped (archive issues, untraversed folders)
+const sourceManifest = (source: VirtualFileList): ManifestEntry[] => [
+  ...(source.skippedDirectories ?? []).map(path => ({ path: `${path}/`, size: 0, reason: 'excluded-dir' as const })),
+  // Renamed entries are still extracted and classified under their new path
+  ...(source.issues ?? [])
+    .filter(issue => issue.kind !== 'unsafe-path' || !issue.detail)
+    .map(issue => ({ path: issue.path, size: issue.size ?? 0, reason: issue.kind, detail: issue.detail })),
+];
+
+// The first directory of `path` that matches an exclude pattern
+const findExcludedDirectory = (path: string, isExcluded: (path: string, isDirectory?: boolean) => boolean): string | undefined => {
+  const parts = path.split('/');
+  for (let i = 1; i < parts.length; i++) {
+    const dir = parts.slice(0, i).join('/');
+    if (isExcluded(dir, true)) return dir;
   }
-  
+  return undefined;
+};
+
+/**
+ * Filters, decodes and measures the files of a virtual file list. Every
+ * entry is recorded in the manifest with the reason it was kept or skipped.
+ */
+export const processFileList = async (
+  source: VirtualFileList,
+  onProgress: (percent: number, message: LocalizedMessage) => void,
+  signal?: AbortSignal,
+  options: ProcessOptions = {}
+): Promise<ExtractionResult> => {
   const files: ProcessedFile[] = [];
   const paths: string[] = [];
-  let totalSize = 0;
+  const skippedBinaries: SkippedFile[] = [];
+  const secretFindings: SecretFinding[] = [];
+  const manifest = sourceManifest(source);
 
-  const fileEntries = Object.keys(loadedZip.files);
-  const totalFiles = fileEntries.length;
+  const totalFiles = source.files.length;
   
-  // Check for empty zip
+  // Check for empty source
   if (totalFiles === 0) {
-    onProgress(100, "Архив пустой");
+    onProgress(100, { key: 'progress.emptyArchive' });
     return {
+      repoName: source.name,
       files: [],
       tree: "(Empty Archive)",
-      stats: { fileCount: 0, totalSize: 0, tokenEstimate: 0 }
+      stats: { fileCount: 0, totalSize: 0, tokenCount: 0 },
+      skippedBinaries: [],
+      secretFindings: [],
+      archiveIssues: source.issues ?? [],
+      manifest
     };
   }
 
+  const filters = options.filters ?? DEFAULT_FILTER_SETTINGS;
+  const pathFilter = createPathFilter(filters);
+  const fileLimits = options.fileLimits ?? DEFAULT_FILE_LIMITS;
+  const contentHandlers = options.contentHandlers ?? DEFAULT_CONTENT_HANDLERS;
+  let generatedFiles = 0;
+
+  onProgress(6, { key: 'progress.loadingTokenizer' });
+  const tokenizer = await loadTokenizer(options.tokenizer ?? 'o200k_base');
+
   let processedCount = 0;
   const textEncoder = new TextEncoder();
 
-  onProgress(10, "Анализ файлов...");
+  onProgress(8, { key: 'progress.readingGitignore' });
+
+  // Collect every .gitignore (including nested ones) before filtering entries
+  const gitignoreSources: GitignoreSource[] = [];
+  for (const entry of source.files) {
+    const filename = entry.path;
+    if (filename.split('/').pop() !== '.gitignore') continue;
+    if (pathFilter.isExcluded(filename)) continue;
+
+    const slash = filename.lastIndexOf('/');
+    gitignoreSources.push({
+      baseDir: slash === -1 ? '' : filename.slice(0, slash),
+      content: decodeText(await entry.read(), 'utf-8'),
+    });
+  }
+  const isGitIgnored = createGitignoreMatcher(gitignoreSources);
+
+  onProgress(10, { key: 'progress.analyzingFiles' });
 
-  for (const filename of fileEntries) {
+  for (const entry of source.files) {
     // Check cancellation
     if (signal?.aborted) {
       throw new DOMException('Aborted', 'AbortError');
     }
 
-    const zipEntry = loadedZip.files[filename];
+    const filename = entry.path;
     processedCount++;
 
     // Update progress periodically or on last file to ensure we hit 100% of this phase
     if (totalFiles > 0 && (processedCount % 5 === 0 || processedCount === totalFiles)) {
       const progress = 10 + Math.floor((processedCount / totalFiles) * 80); // 10% -> 90%
-      onProgress(progress, `Обработка: ${filename.split('/').pop()}`);
+      onProgress(progress, { key: 'progress.processingFile', params: { name: filename.split('/').pop()! } });
+    }
+
+    if (isGitIgnored(filename)) {
+      manifest.push({ path: filename, size: entry.size, reason: 'gitignored' });
+      continue;
+    }
+    if (pathFilter.isExcluded(filename)) {
+      const dir = findExcludedDirectory(filename, pathFilter.isExcluded);
+      manifest.push(dir
+        ? { path: filename, size: entry.size, reason: 'excluded-dir', detail: `${dir}/` }
+        : { path: filename, size: entry.size, reason: 'excluded-file' });
+      continue;
     }
 
-    if (zipEntry.dir) continue;
-    if (shouldIgnore(filename)) continue;
-
-    if (isTextFile(filename)) {
-      paths.push(filename);
-      const content = await zipEntry.async('string');
-      // Calculate accurate byte size for UTF-8
-      const byteLength = textEncoder.encode(content).length;
-      totalSize += byteLength;
-      
-      files.push({
-        path: filename,
-        content: content,
-        extension: filename.split('.').pop() || ''
-      });
+    // Include patterns are a hint: unmatched files are still sniffed when detection is on
+    const textHint = pathFilter.isIncluded(filename);
+    if (!textHint && !filters.detectText) {
+      manifest.push({ path: filename, size: entry.size, reason: 'not-included' });
+      continue;
+    }
+
+    if (hasBinaryExtension(filename)) {
+      skippedBinaries.push({ path: filename, size: entry.size });
+      manifest.push({ path: filename, size: entry.size, reason: 'binary' });
+      continue;
+    }
+
+    const bytes = await entry.read();
+    const detected = detectTextEncoding(bytes, textHint);
+    if (!detected.isText) {
+      skippedBinaries.push({ path: filename, size: bytes.length });
+      manifest.push({ path: filename, size: bytes.length, reason: 'not-text' });
+      continue;
+    }
+
+    const decoded = decodeText(bytes, detected.encoding);
+    // Calculate accurate byte size for UTF-8
+    const originalLength = textEncoder.encode(decoded).length;
+
+    // Handlers run first: a notebook's base64 outputs would otherwise look minified
+    const handled = applyContentHandler(filename, decoded, originalLength, contentHandlers);
+    const handledContent = handled ? handled.content : decoded;
+
+    if (fileLimits.excludeGenerated) {
+      const generated = detectGenerated(filename, handledContent);
+      if (generated) {
+        generatedFiles++;
+        manifest.push({ path: filename, size: originalLength, reason: 'generated', detail: generated });
+        continue;
+      }
+    }
+
+    const handledLength = handled ? textEncoder.encode(handledContent).length : originalLength;
+    const limited = applyFileLimits(handledContent, handledLength, fileLimits);
+    if (limited.kind === 'skip') {
+      manifest.push({ path: filename, size: originalLength, reason: 'too-large', detail: limited.detail });
+      continue;
+    }
+
+    paths.push(filename);
+    const content = limited.content;
+    const byteLength = content === handledContent ? handledLength : textEncoder.encode(content).length;
+
+    files.push({
+      path: filename,
+      content: content,
+      extension: getExtension(filename),
+      size: byteLength,
+      tokens: tokenizer.countTokens(content),
+      truncatedLines: limited.truncatedLines,
+      handler: handled ? { id: handled.handler, note: handled.note } : undefined
+    });
+    const details = [
+      handled && `${handled.handler}: ${handled.note}`,
+      limited.truncatedLines !== undefined && `truncated ${limited.truncatedLines} lines`,
+    ].filter(Boolean);
+    manifest.push(details.length > 0
+      ? { path: filename, size: originalLength, reason: 'included', detail: details.join('; ') }
+      : { path: filename, size: originalLength, reason: 'included' });
+
+    if (options.scanSecrets !== false) {
+      secretFindings.push(...scanForSecrets({ path: filename, content }));
     }
   }
 
   const tree = generateTreeString(paths);
 
   return {
+    repoName: source.name,
     files,
     tree,
-    stats: {
-      fileCount: files.length,
-      totalSize,
-      tokenEstimate: Math.ceil(totalSize / 4) // Crude estimate: 4 chars (approx) per token
-    }
+    stats: generatedFiles > 0 ? { ...computeStats(files), generatedFiles } : computeStats(files),
+    skippedBinaries,
+    secretFindings,
+    archiveIssues: source.issues ?? [],
+    manifest,
+    // Checked against every entry, so a selection that happens to share a folder keeps it
+    rootFolder: getSharedRootFolder(source.files.map(entry => entry.path)) ?? undefined
   };
 };
 
+/**
+ * Opens any supported source (ZIP or TAR archive, folder) and processes its files.
+ */
+export const processSource = async (
+  source: PackSource,
+  onProgress: (percent: number, message: LocalizedMessage) => void,
+  signal?: AbortSignal,
+  options: ProcessOptions = {}
+): Promise<ExtractionResult> => {
+  onProgress(5, { key: source.kind === 'zip' ? 'progress.readingZip' : source.kind === 'tar' ? 'progress.extractingTar' : 'progress.readingFolder' });
+
+  // Excluded directories (node_modules, .git, ...) are not even listed
+  const pathFilter = createPathFilter(options.filters ?? DEFAULT_FILTER_SETTINGS);
+  const list = await openSource(source, { skipDirectory: path => pathFilter.isExcluded(path, true), limits: options.limits });
+
+  return processFileList(list, onProgress, signal, options);
+};
+
+/**
+ * Processes a ZIP archive. Kept for callers of the original ZIP-only API;
+ * new code should use `processSource`.
+ */
+export const processZipFile = (
+  file: File,
+  onProgress: (percent: number, message: LocalizedMessage) => void,
+  signal?: AbortSignal,
+  options: ProcessOptions = {}
+): Promise<ExtractionResult> => processSource({ kind: 'zip', file }, onProgress, signal, options);
+
+/**
+ * Renders the pack as Markdown (the default output format).
+ */
 export const createMarkdownContent = (
   repoName: string,
   tree: string,
   files: ProcessedFile[]
-): string => {
-  let md = `# Project: ${repoName}\n\n`;
-  
-  md += `## 📂 Project Structure\n\n\`\`\`\n${tree}\n\`\`\`\n\n`;
-  
-  md += `## 💻 File Contents\n\n`;
-
-  files.forEach(f => {
-    // Generate a code fence that is longer than any fence inside the content
-    let fenceLength = 3;
-    const backticks = f.content.match(/`+/g);
-    if (backticks) {
-      for (const match of backticks) {
-        if (match.length >= fenceLength) {
-          fenceLength = match.length + 1;
-        }
-      }
-    }
-    const fence = '`'.repeat(fenceLength);
-
-    md += `### ${f.path}\n`;
-    md += `${fence}${f.extension}\n`;
-    md += f.content;
-    md += `\n${fence}\n\n`;
-  });
-
-  return md;
-};
\ No newline at end of file
+): string => renderPack(markdownFormat, { repoName, tree }, files);
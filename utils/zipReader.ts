@@ -0,0 +1,156 @@
+/**
+ * Minimal ZIP reader. The central directory is parsed up front, so sizes,
+ * encryption and file types are known before anything is decompressed.
+ * Supports stored and deflated entries (via DecompressionStream) and ZIP64.
+ */
+
+import { LocalizedError } from './i18n';
+
+export interface ZipEntry {
+  path: string; // as stored in the archive
+  size: number; // uncompressed, from the central directory
+  compressedSize: number;
+  method: number; // 0 = stored, 8 = deflate
+  encrypted: boolean;
+  isDirectory: boolean;
+  isSymlink: boolean;
+  localHeaderOffset: number;
+}
+
+export const ZIP_METHOD_STORED = 0;
+export const ZIP_METHOD_DEFLATE = 8;
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_SIGNATURE = 0x06054b50;
+const ZIP64_END_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EXTRA_ID = 0x0001;
+
+// End of central directory record plus the longest possible comment
+const MAX_END_SEARCH = 22 + 0xffff;
+
+// Unix file type bits in the high half of the external attributes
+const UNIX_TYPE_MASK = 0o170000;
+const UNIX_SYMLINK = 0o120000;
+const HOST_UNIX = 3;
+
+// Names are UTF-8 only when general purpose bit 11 is set, otherwise IBM code page 437
+const FLAG_UTF8_NAME = 0x0800;
+const CP437_HIGH = 'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0';
+
+const utf8 = new TextDecoder('utf-8');
+
+const decodeCp437 = (bytes: Uint8Array): string => {
+  let text = '';
+  for (const byte of bytes) text += byte < 0x80 ? String.fromCharCode(byte) : CP437_HIGH[byte - 0x80];
+  return text;
+};
+
+const readUint64 = (view: DataView, offset: number): number =>
+  view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+
+/**
+ * Returns true when the buffer starts like a ZIP archive (including an empty one).
+ */
+export const isZipArchive = (bytes: Uint8Array): boolean =>
+  bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b &&
+  ((bytes[2] === 0x03 && bytes[3] === 0x04) || (bytes[2] === 0x05 && bytes[3] === 0x06));
+
+const findEndRecord = (view: DataView): number => {
+  const stop = Math.max(0, view.byteLength - MAX_END_SEARCH);
+  for (let offset = view.byteLength - 22; offset >= stop; offset--) {
+    if (view.getUint32(offset, true) === END_SIGNATURE) return offset;
+  }
+  throw new Error('ZIP end of central directory not found');
+};
+
+/**
+ * Lists all entries from the central directory. Throws on a malformed archive.
+ */
+export const readZipDirectory = (bytes: Uint8Array): ZipEntry[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = findEndRecord(view);
+
+  let count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  // Values saturated at 0xffff / 0xffffffff live in the ZIP64 end record
+  const locator = end - 20;
+  if (locator >= 0 && view.getUint32(locator, true) === ZIP64_LOCATOR_SIGNATURE) {
+    const zip64End = readUint64(view, locator + 8);
+    if (view.getUint32(zip64End, true) !== ZIP64_END_SIGNATURE) throw new Error('Corrupted ZIP64 record');
+    count = readUint64(view, zip64End + 32);
+    offset = readUint64(view, zip64End + 48);
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupted ZIP central directory at offset ${offset}`);
+    }
+
+    const versionMadeBy = view.getUint16(offset + 4, true);
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    let compressedSize = view.getUint32(offset + 20, true);
+    let size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const externalAttributes = view.getUint32(offset + 38, true);
+    let localHeaderOffset = view.getUint32(offset + 42, true);
+
+    const nameStart = offset + 46;
+    const nameBytes = bytes.subarray(nameStart, nameStart + nameLength);
+    const path = flags & FLAG_UTF8_NAME ? utf8.decode(nameBytes) : decodeCp437(nameBytes);
+
+    // ZIP64 extra field: only the saturated values are present, in this order
+    let extra = nameStart + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = view.getUint16(extra, true);
+      const length = view.getUint16(extra + 2, true);
+      if (id === ZIP64_EXTRA_ID) {
+        let field = extra + 4;
+        if (size === 0xffffffff) { size = readUint64(view, field); field += 8; }
+        if (compressedSize === 0xffffffff) { compressedSize = readUint64(view, field); field += 8; }
+        if (localHeaderOffset === 0xffffffff) localHeaderOffset = readUint64(view, field);
+      }
+      extra += 4 + length;
+    }
+
+    const unixMode = versionMadeBy >> 8 === HOST_UNIX ? externalAttributes >>> 16 : 0;
+    entries.push({
+      path,
+      size,
+      compressedSize,
+      method,
+      encrypted: (flags & 0x1) !== 0,
+      isDirectory: path.endsWith('/') || path.endsWith('\\'),
+      isSymlink: (unixMode & UNIX_TYPE_MASK) === UNIX_SYMLINK,
+      localHeaderOffset,
+    });
+
+    offset = extraEnd + commentLength;
+  }
+
+  return entries;
+};
+
+/**
+ * Returns the compressed bytes of an entry (a view into the archive).
+ */
+export const getZipEntryData = (bytes: Uint8Array, entry: ZipEntry): Uint8Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const offset = entry.localHeaderOffset;
+  if (offset + 30 > view.byteLength || view.getUint32(offset, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new LocalizedError('error.zipLocalHeader', { path: entry.path });
+  }
+  // Name and extra lengths may differ from the central directory
+  const start = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+  if (start + entry.compressedSize > view.byteLength) {
+    throw new LocalizedError('error.zipEntry', { path: entry.path });
+  }
+  return bytes.subarray(start, start + entry.compressedSize);
+};
@@ -2,6 +2,19 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vitejs.dev/config/
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
-})
\ No newline at end of file
+  worker: {
+    // The pack worker lazy-loads tokenizer vocabularies, which needs code splitting
+    format: 'es',
+  },
+  // `vite build --ssr` builds the Node library and the `repopacker` CLI
+  build: isSsrBuild
+    ? {
+        outDir: 'dist-ssr',
+        rollupOptions: {
+          input: { index: 'node/index.ts', cli: 'node/cli.ts' },
+        },
+      }
+    : undefined,
+}))